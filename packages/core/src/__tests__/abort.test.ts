@@ -0,0 +1,153 @@
+/**
+ * Tests for aborting transitions in flight
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, StageContext } from '../types/core';
+
+type CheckoutStage = 'cart' | 'shipping' | 'payment';
+
+interface CheckoutData {
+  items?: number;
+  address?: string;
+}
+
+/**
+ * Returns a promise together with the function resolving it
+ */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+function createConfig(overrides: Partial<StageFlowConfig<CheckoutStage, CheckoutData>> = {}): StageFlowConfig<CheckoutStage, CheckoutData> {
+  return {
+    initial: 'cart',
+    stages: [
+      { name: 'cart', transitions: [{ target: 'shipping', event: 'next' }] },
+      { name: 'shipping', transitions: [{ target: 'payment', event: 'next' }] },
+      { name: 'payment', transitions: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('Transition abort', () => {
+  it('should abort a pending condition', async () => {
+    const gate = deferred();
+    let signal: AbortSignal | undefined;
+    const engine = new StageFlowEngine(createConfig({
+      stages: [
+        {
+          name: 'cart',
+          transitions: [{
+            target: 'shipping',
+            event: 'next',
+            condition: async context => {
+              signal = context.signal;
+              await gate.promise;
+              return true;
+            }
+          }]
+        },
+        { name: 'shipping', transitions: [] },
+        { name: 'payment', transitions: [] }
+      ]
+    }));
+    await engine.start();
+
+    const pending = engine.send('next');
+    await Promise.resolve();
+
+    expect(engine.abortTransition('User cancelled')).toBe(true);
+    await expect(pending).rejects.toMatchObject({ code: 'TRANSITION_ABORTED', message: 'User cancelled' });
+    expect(signal?.aborted).toBe(true);
+    expect(engine.getCurrentStage()).toBe('cart');
+
+    // The engine accepts events again
+    gate.resolve();
+    await expect(engine.send('next')).resolves.toMatchObject({ to: 'shipping', transitioned: true });
+  });
+
+  it('should roll back a transition aborted in onEnter', async () => {
+    const gate = deferred();
+    const onExit = vi.fn();
+    const engine = new StageFlowEngine(createConfig({
+      stages: [
+        { name: 'cart', transitions: [{ target: 'shipping', event: 'next' }] },
+        {
+          name: 'shipping',
+          onExit,
+          transitions: [{ target: 'payment', event: 'next' }]
+        },
+        {
+          name: 'payment',
+          onEnter: () => gate.promise,
+          transitions: []
+        }
+      ]
+    }));
+    await engine.start();
+    await engine.send('next', { items: 2 });
+    const historyBefore = engine.getSnapshot().history;
+
+    const pending = engine.send('next', { items: 2, address: 'Main St' });
+    await vi.waitFor(() => expect(onExit).toHaveBeenCalled());
+    expect(engine.getCurrentStage()).toBe('payment');
+
+    engine.abortTransition();
+    await expect(pending).rejects.toMatchObject({ code: 'TRANSITION_ABORTED' });
+
+    expect(engine.getCurrentStage()).toBe('shipping');
+    expect(engine.getCurrentData()).toEqual({ items: 2 });
+    expect(engine.getSnapshot().history).toEqual(historyBefore);
+
+    gate.resolve();
+  });
+
+  it('should let a new event preempt the transition in flight', async () => {
+    const gate = deferred();
+    const signals: Array<AbortSignal | undefined> = [];
+    const engine = new StageFlowEngine(createConfig({
+      eventQueue: { policy: 'preempt' },
+      stages: [
+        {
+          name: 'cart',
+          transitions: [{ target: 'shipping', event: 'next' }, { target: 'payment', event: 'skip' }]
+        },
+        {
+          name: 'shipping',
+          onEnter: (context: StageContext<CheckoutStage, CheckoutData>) => {
+            signals.push(context.signal);
+            return gate.promise;
+          },
+          transitions: []
+        },
+        { name: 'payment', transitions: [] }
+      ]
+    }));
+    await engine.start();
+
+    const first = engine.send('next');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    const second = engine.send('skip');
+
+    await expect(first).rejects.toMatchObject({ code: 'TRANSITION_ABORTED' });
+    await expect(second).resolves.toMatchObject({ from: 'cart', to: 'payment', transitioned: true });
+    expect(signals[0]?.aborted).toBe(true);
+    expect(engine.getSnapshot().history.map(entry => entry.stage)).toEqual(['cart', 'payment']);
+
+    gate.resolve();
+  });
+
+  it('should return false when no transition is in flight', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    expect(engine.abortTransition()).toBe(false);
+  });
+});
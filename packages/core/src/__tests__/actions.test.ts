@@ -0,0 +1,143 @@
+/**
+ * Tests for transition actions
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, Middleware } from '../types/core';
+import { ConfigurationError, TransitionError } from '../types/errors';
+import { RuntimeTypeChecker, validateStageFlowConfig } from '../validation';
+
+type CartStage = 'cart' | 'checkout' | 'paid';
+
+interface CartData {
+  items?: string[];
+  attempts?: number;
+  total?: number;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function createConfig(onExitCart = vi.fn()): StageFlowConfig<CartStage, CartData> {
+  return {
+    initial: 'cart',
+    stages: [
+      {
+        name: 'cart',
+        data: { items: ['book'] },
+        onExit: onExitCart,
+        transitions: [
+          {
+            target: 'checkout',
+            event: 'checkout',
+            actions: [
+              (data, payload) => ({ ...data, ...payload }),
+              (data) => ({ ...data, attempts: (data?.attempts ?? 0) + 1 })
+            ]
+          }
+        ]
+      },
+      {
+        name: 'checkout',
+        transitions: [
+          {
+            target: 'paid',
+            event: 'pay',
+            actions: [(data, _payload, context) => ({ ...data, total: context.to === 'paid' ? 10 : 0 })]
+          }
+        ]
+      },
+      { name: 'paid', transitions: [] }
+    ]
+  };
+}
+
+describe('Transition actions', () => {
+  it('should apply actions in order to derive the target data', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await engine.send('checkout', { items: ['book', 'pen'] });
+
+    expect(engine.getCurrentStage()).toBe('checkout');
+    expect(engine.getCurrentData()).toEqual({ items: ['book', 'pen'], attempts: 1 });
+  });
+
+  it('should start from the current stage data', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await engine.send('checkout');
+
+    expect(engine.getCurrentData()).toEqual({ items: ['book'], attempts: 1 });
+  });
+
+  it('should pass the transition context to actions', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('checkout');
+
+    await engine.send('pay');
+
+    expect(engine.getCurrentData()).toMatchObject({ total: 10 });
+  });
+
+  it('should receive the payload after middleware modifications', async () => {
+    const middleware: Middleware<CartStage, CartData> = {
+      name: 'add-gift',
+      execute: async (context, next) => {
+        context.modify({ data: { items: ['gift'] } });
+        await next();
+      }
+    };
+    const engine = new StageFlowEngine({ ...createConfig(), middleware: [middleware] });
+    await engine.start();
+
+    await engine.send('checkout', { items: ['pen'] });
+
+    expect(engine.getCurrentData()).toEqual({ items: ['gift'], attempts: 1 });
+  });
+
+  it('should abort before exiting when an action throws', async () => {
+    const onExitCart = vi.fn();
+    const config = createConfig(onExitCart);
+    config.stages[0].transitions[0].actions!.push(() => {
+      throw new Error('Out of stock');
+    });
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    await expect(engine.send('checkout')).rejects.toThrow('Transition action failed: Out of stock');
+    expect(engine.getCurrentStage()).toBe('cart');
+    expect(engine.getCurrentData()).toEqual({ items: ['book'] });
+    expect(onExitCart).not.toHaveBeenCalled();
+  });
+
+  it('should reject data that fails stage data validation', async () => {
+    vi.spyOn(RuntimeTypeChecker.prototype, 'validateStageData').mockImplementation((stage) => {
+      if (stage === 'checkout') {
+        throw new ConfigurationError('Invalid checkout data');
+      }
+    });
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    const sending = engine.send('checkout');
+
+    await expect(sending).rejects.toThrow(TransitionError);
+    await expect(sending).rejects.toThrow('Invalid checkout data');
+    expect(engine.getCurrentStage()).toBe('cart');
+  });
+
+  it('should reject non-function actions in the configuration', () => {
+    const config = createConfig();
+    (config.stages[1].transitions[0] as { actions: unknown }).actions = ['total'];
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Stage "checkout" transition to "paid": Every action must be a function');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for change records delivered to subscribeToChanges listeners
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageChange, StageFlowConfig } from '../types/core';
+
+type WizardStage = 'intro' | 'details' | 'summary';
+
+interface WizardData {
+  name?: string;
+}
+
+function createEngine() {
+  let time = 100;
+  const config: StageFlowConfig<WizardStage, WizardData> = {
+    initial: 'intro',
+    clock: { now: () => time++ },
+    stages: [
+      { name: 'intro', transitions: [{ target: 'details', event: 'next' }] },
+      { name: 'details', transitions: [{ target: 'summary', event: 'next' }] },
+      { name: 'summary', transitions: [] }
+    ]
+  };
+  return new StageFlowEngine(config);
+}
+
+describe('Change records', () => {
+  it('should describe start, transitions and data updates', async () => {
+    const engine = createEngine();
+    const changes: StageChange<WizardStage, WizardData>[] = [];
+    engine.subscribeToChanges(change => changes.push(change));
+
+    await engine.start();
+    await engine.send('next', { name: 'Ada' });
+    engine.patchStageData({ name: 'Ada Lovelace' });
+    await engine.goTo('summary');
+
+    expect(changes).toEqual([
+      { kind: 'start', to: 'intro', data: undefined, timestamp: expect.any(Number) },
+      {
+        kind: 'transition',
+        from: 'intro',
+        to: 'details',
+        event: 'next',
+        data: { name: 'Ada' },
+        previousData: undefined,
+        timestamp: expect.any(Number),
+        transitionId: 1
+      },
+      {
+        kind: 'data',
+        from: 'details',
+        to: 'details',
+        data: { name: 'Ada Lovelace' },
+        previousData: { name: 'Ada' },
+        timestamp: expect.any(Number)
+      },
+      expect.objectContaining({ kind: 'transition', from: 'details', to: 'summary', transitionId: 2 })
+    ]);
+    expect(changes[1].timestamp).toBeGreaterThan(changes[0].timestamp);
+  });
+
+  it('should tell history navigation, reset and restore apart', async () => {
+    const engine = createEngine();
+    await engine.start();
+    await engine.send('next', { name: 'Ada' });
+    const snapshot = engine.getSnapshot();
+
+    const listener = vi.fn();
+    engine.subscribeToChanges(listener);
+
+    await engine.back();
+    engine.restore(snapshot);
+    await engine.reset();
+
+    expect(listener.mock.calls.map(([change]) => [change.kind, change.from, change.to])).toEqual([
+      ['history', 'details', 'intro'],
+      ['restore', 'intro', 'details'],
+      ['reset', 'details', 'intro']
+    ]);
+    expect(listener.mock.calls[0][0].transitionId).toBe(2);
+    expect(listener.mock.calls[2][0].previousData).toEqual({ name: 'Ada' });
+  });
+
+  it('should keep calling subscribe() callbacks with stage and data', async () => {
+    const engine = createEngine();
+    const callback = vi.fn();
+    const listener = vi.fn();
+    engine.subscribe(callback);
+    const unsubscribe = engine.subscribeToChanges(listener);
+
+    await engine.start();
+    unsubscribe();
+    await engine.send('next');
+
+    expect(callback).toHaveBeenLastCalledWith('details', undefined);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for changing the configuration of a live engine
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { ConfigurationError } from '../types/errors';
+
+type OnboardingStage = 'welcome' | 'profile' | 'referral' | 'summary';
+
+interface OnboardingData {
+  name?: string;
+}
+
+function createEngine() {
+  const config: StageFlowConfig<OnboardingStage, OnboardingData> = {
+    initial: 'welcome',
+    stages: [
+      { name: 'welcome', transitions: [{ target: 'profile', event: 'next' }] },
+      { name: 'profile', transitions: [{ target: 'summary', event: 'next' }] },
+      { name: 'summary', transitions: [] }
+    ]
+  };
+  return new StageFlowEngine(config);
+}
+
+describe('Runtime configuration changes', () => {
+  it('should add stages and transitions to a started engine', async () => {
+    const engine = createEngine();
+    await engine.start();
+    await engine.send('next');
+
+    engine.addStage({ name: 'referral', transitions: [{ target: 'summary', event: 'next' }] });
+    engine.addTransition('profile', { target: 'referral', event: 'refer' });
+
+    await expect(engine.send('refer')).resolves.toMatchObject({ to: 'referral', transitioned: true });
+    await engine.send('next');
+    expect(engine.getCurrentStage()).toBe('summary');
+  });
+
+  it('should leave the configuration unchanged when a change is invalid', async () => {
+    const engine = createEngine();
+    await engine.start();
+
+    expect(() => engine.addStage({ name: 'referral', transitions: [{ target: 'missing' as OnboardingStage }] }))
+      .toThrow(ConfigurationError);
+    expect(() => engine.addStage({ name: 'profile', transitions: [] })).toThrow('Duplicate stage name "profile"');
+    expect(() => engine.addTransition('welcome', { target: 'referral', event: 'refer' })).toThrow(ConfigurationError);
+    expect(() => engine.updateStage('referral', { transitions: [] })).toThrow('Stage "referral" does not exist');
+
+    await expect(engine.send('next')).resolves.toMatchObject({ to: 'profile' });
+  });
+
+  it('should apply stage updates and re-arm the timers of the active stage', async () => {
+    vi.useFakeTimers();
+    try {
+      const engine = createEngine();
+      await engine.start();
+      const onEnter = vi.fn();
+
+      engine.updateStage('welcome', { transitions: [{ target: 'profile', after: 1000 }] });
+      engine.updateStage('profile', { onEnter });
+      expect(engine.getTimerRemainingTime()).toBe(1000);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(engine.getCurrentStage()).toBe('profile');
+      expect(onEnter).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should remove stages and the transitions leading to them', async () => {
+    const engine = createEngine();
+    engine.addStage({ name: 'referral', transitions: [{ target: 'summary', event: 'next' }] });
+    engine.addTransition('profile', { target: 'referral', event: 'refer' });
+    await engine.start();
+    await engine.send('next');
+
+    await engine.removeStage('referral');
+
+    await expect(engine.send('refer')).resolves.toMatchObject({ transitioned: false, candidates: [] });
+    await expect(engine.goTo('referral')).rejects.toThrow();
+  });
+
+  it('should drop the history entries of removed stages', async () => {
+    const engine = createEngine();
+    engine.addStage({ name: 'referral', transitions: [{ target: 'summary', event: 'next' }] });
+    engine.addTransition('profile', { target: 'referral', event: 'refer' });
+    await engine.start();
+    await engine.send('next');
+    await engine.send('refer');
+    await engine.back();
+
+    await engine.removeStage('referral');
+
+    expect(engine.getSnapshot()).toMatchObject({ historyIndex: 1 });
+    expect(engine.getSnapshot().history.map(entry => entry.stage)).toEqual(['welcome', 'profile']);
+    expect(engine.canGoForward()).toBe(false);
+    engine.restore(engine.getSnapshot());
+    expect(engine.getCurrentStage()).toBe('profile');
+
+    expect(engine.canGoBack()).toBe(true);
+    await expect(engine.back()).resolves.toMatchObject({ to: 'welcome', transitioned: true });
+  });
+
+  it('should only remove the active stage with a migration target', async () => {
+    const engine = createEngine();
+    const onExit = vi.fn();
+    engine.updateStage('profile', { onExit });
+    await engine.start();
+    await engine.send('next');
+
+    await expect(engine.removeStage('profile')).rejects.toMatchObject({ code: 'STAGE_REMOVAL_NOT_ALLOWED' });
+    await expect(engine.removeStage('welcome', { migrateTo: 'summary' })).rejects.toThrow('the initial stage cannot be removed');
+    expect(engine.getCurrentStage()).toBe('profile');
+
+    await engine.removeStage('profile', { migrateTo: 'summary', data: { name: 'Ada' } });
+
+    expect(engine.getCurrentStage()).toBe('summary');
+    expect(engine.getCurrentData()).toEqual({ name: 'Ada' });
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(() => engine.updateStage('profile', {})).toThrow('Stage "profile" does not exist');
+  });
+});
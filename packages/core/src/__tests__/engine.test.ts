@@ -842,6 +842,57 @@ describe('StageFlowEngine - Task 2.2', () => {
                 // Clean up
                 await engine.stop();
             });
+
+            it('should cancel a timer transition that runs out of retries', async () => {
+                vi.useFakeTimers();
+                const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+                const onEnter = vi.fn(() => {
+                    throw new Error('Loading failed');
+                });
+
+                const configWithFailingTimer: StageFlowConfig<TestStage, TestData> = {
+                    initial: 'initial',
+                    stages: [
+                        {
+                            name: 'initial',
+                            transitions: [
+                                { target: 'loading', after: 100 }
+                            ]
+                        },
+                        {
+                            name: 'loading',
+                            onEnter,
+                            transitions: []
+                        }
+                    ]
+                };
+
+                const engine = new StageFlowEngine(configWithFailingTimer);
+                const timerEvents = vi.fn();
+                engine.subscribeToTimerEvents(timerEvents);
+                await engine.start();
+
+                // First attempt, then retries after 1s, 2s and 4s
+                await vi.advanceTimersByTimeAsync(100 + 1000 + 2000 + 4000);
+
+                expect(onEnter).toHaveBeenCalledTimes(4);
+                expect(engine.getCurrentStage()).toBe('initial');
+                expect(timerEvents).toHaveBeenCalledWith(expect.objectContaining({
+                    type: 'timer:cancelled',
+                    stage: 'initial',
+                    target: 'loading',
+                    duration: 100
+                }));
+
+                // No further retries are scheduled
+                await vi.advanceTimersByTimeAsync(20000);
+                expect(onEnter).toHaveBeenCalledTimes(4);
+
+                // Clean up
+                await engine.stop();
+                consoleSpy.mockRestore();
+                vi.useRealTimers();
+            });
         });
 
         describe('Stage lifecycle hooks', () => {
@@ -1360,5 +1411,39 @@ describe('StageFlowEngine - Task 2.4', () => {
 
             expect(engine.getCurrentData()).toEqual(complexData);
         });
+
+        it('should compute data from the current data with an updater', () => {
+            engine.setStageData({ message: 'First', count: 1 });
+            engine.setStageData(previous => ({ ...previous, count: (previous?.count ?? 0) + 1 }));
+            engine.setStageData(previous => ({ ...previous, count: (previous?.count ?? 0) + 1 }));
+
+            expect(engine.getCurrentData()).toEqual({ message: 'First', count: 3 });
+        });
+
+        it('should merge fields with patchStageData', () => {
+            const mockCallback = vi.fn();
+            engine.setStageData({ message: 'Initial', count: 1 });
+            engine.subscribe(mockCallback);
+
+            engine.patchStageData({ count: 2 });
+
+            expect(engine.getCurrentData()).toEqual({ message: 'Initial', count: 2 });
+            expect(mockCallback).toHaveBeenCalledWith('initial', { message: 'Initial', count: 2 });
+        });
+
+        it('should not notify subscribers when data is unchanged', () => {
+            const mockCallback = vi.fn();
+            engine.setStageData({ message: 'Same', count: 1 });
+            engine.subscribe(mockCallback);
+
+            engine.setStageData({ message: 'Same', count: 1 });
+            engine.setStageData(previous => previous!);
+            engine.patchStageData({ count: 1 });
+
+            expect(mockCallback).not.toHaveBeenCalled();
+
+            engine.patchStageData({ count: 2 });
+            expect(mockCallback).toHaveBeenCalledTimes(1);
+        });
     });
 });
\ No newline at end of file
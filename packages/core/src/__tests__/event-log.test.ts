@@ -0,0 +1,172 @@
+/**
+ * Tests for the event log and replay
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+
+type TicketStage = 'start' | 'details' | 'waiting' | 'expired' | 'done';
+
+interface TicketData {
+  note?: string;
+}
+
+function createConfig(now: () => number = () => 0): StageFlowConfig<TicketStage, TicketData> {
+  return {
+    initial: 'start',
+    eventLog: true,
+    clock: { now },
+    stages: [
+      { name: 'start', transitions: [{ target: 'details', event: 'open' }] },
+      {
+        name: 'details',
+        transitions: [
+          { target: 'waiting', event: 'submit' },
+          { target: 'done', event: 'close' }
+        ]
+      },
+      { name: 'waiting', transitions: [{ target: 'expired', after: 500 }] },
+      { name: 'expired', transitions: [] },
+      { name: 'done', transitions: [] }
+    ]
+  };
+}
+
+describe('Event log', () => {
+  it('should record inputs with logical and clock timestamps', async () => {
+    let time = 1000;
+    const engine = new StageFlowEngine(createConfig(() => time));
+    await engine.start();
+
+    time = 1200;
+    await engine.send('open', { note: 'a' });
+    time = 1500;
+    engine.setStageData({ note: 'b' });
+    await expect(engine.send('missing')).resolves.toMatchObject({ transitioned: false });
+    await expect(engine.goTo('unknown' as TicketStage)).rejects.toThrow();
+
+    expect(engine.getEventLog()).toEqual([
+      { type: 'send', event: 'open', data: { note: 'a' }, seq: 1, time: 1200, result: { stage: 'details', data: { note: 'a' } } },
+      { type: 'setStageData', data: { note: 'b' }, seq: 2, time: 1500, result: { stage: 'details', data: { note: 'b' } } },
+      { type: 'send', event: 'missing', seq: 3, time: 1500, result: { stage: 'details', data: { note: 'b' } } },
+      {
+        type: 'goTo',
+        stage: 'unknown',
+        seq: 4,
+        time: 1500,
+        result: { stage: 'details', data: { note: 'b' }, error: expect.any(String) }
+      }
+    ]);
+  });
+
+  it('should not record without eventLog and start over on reset', async () => {
+    const silent = new StageFlowEngine({ ...createConfig(), eventLog: false });
+    await silent.start();
+    await silent.send('open');
+    expect(silent.getEventLog()).toEqual([]);
+
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open');
+    await engine.reset();
+    expect(engine.getEventLog()).toEqual([]);
+  });
+
+  it('should replay a log into the same state', async () => {
+    let time = 0;
+    const engine = new StageFlowEngine(createConfig(() => time++));
+    await engine.start();
+    await engine.send('open', { note: 'a' });
+    engine.setStageData({ note: 'b' });
+    await engine.back();
+    await engine.forward();
+    await engine.goTo('done', { note: 'c' });
+
+    const log = engine.getEventLog();
+    const { engine: replayed, mismatches } = await engine.replay(log);
+
+    expect(mismatches).toEqual([]);
+    expect(replayed.getCurrentStage()).toBe('done');
+    expect(replayed.getCurrentData()).toEqual({ note: 'c' });
+    expect(replayed.getEventLog()).toEqual([]);
+    // The default clock reads the recorded time of the entry being replayed
+    expect(replayed.getSnapshot().history.map(entry => entry.timestamp)).toEqual([log[0].time, log[0].time, log[4].time]);
+  });
+
+  it('should replay timer firings without real timers', async () => {
+    vi.useFakeTimers();
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open');
+    await engine.send('submit');
+    await vi.advanceTimersByTimeAsync(500);
+    vi.useRealTimers();
+
+    const log = engine.getEventLog();
+    expect(log[2]).toMatchObject({ type: 'timer', stage: 'waiting', target: 'expired', after: 500 });
+
+    const { engine: replayed, mismatches } = await engine.replay(log.slice(0, 2));
+    expect(mismatches).toEqual([]);
+    expect(replayed.getCurrentStage()).toBe('waiting');
+    expect(replayed.getActiveTimers()).toEqual([]);
+
+    const full = await engine.replay(log);
+    expect(full.mismatches).toEqual([]);
+    expect(full.engine.getCurrentStage()).toBe('expired');
+  });
+
+  it('should replay service results from the log', async () => {
+    const src = vi.fn(async () => {
+      throw new Error('offline');
+    });
+    const config: StageFlowConfig<TicketStage, TicketData> = {
+      ...createConfig(),
+      stages: [
+        { name: 'start', transitions: [{ target: 'details', event: 'open' }] },
+        {
+          name: 'details',
+          invoke: {
+            src,
+            onDone: { target: 'done' },
+            onError: {
+              target: 'expired',
+              actions: [(_data, _payload, context) => ({ note: (context.error as Error).message })]
+            }
+          },
+          transitions: []
+        },
+        { name: 'waiting', transitions: [] },
+        { name: 'expired', transitions: [] },
+        { name: 'done', transitions: [] }
+      ]
+    };
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    await engine.send('open');
+    await vi.waitFor(() => expect(engine.getCurrentStage()).toBe('expired'));
+
+    const log = engine.getEventLog();
+    expect(log[1]).toMatchObject({ type: 'invoke', stage: 'details', status: 'error', error: 'offline' });
+
+    const { engine: replayed, mismatches } = await engine.replay(log);
+
+    expect(mismatches).toEqual([]);
+    expect(replayed.getCurrentData()).toEqual({ note: 'offline' });
+    expect(src).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report entries whose result differs from the recording', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open');
+    await engine.send('submit');
+
+    const log = engine.getEventLog();
+    log[1] = { ...log[1], result: { stage: 'done' } };
+
+    const { mismatches } = await engine.replay(log);
+
+    expect(mismatches).toEqual([{ seq: 2, entry: log[1], actual: { stage: 'waiting' } }]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for queued event dispatch during transitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, EventQueuePolicy } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type WizardStage = 'step1' | 'step2' | 'step3' | 'step4';
+
+function createGate() {
+  let open: () => void = () => {};
+  const opened = new Promise<void>(resolve => {
+    open = resolve;
+  });
+  return { opened, open };
+}
+
+function createConfig(
+  policy: EventQueuePolicy,
+  onExitStep1?: () => Promise<void>
+): StageFlowConfig<WizardStage> {
+  return {
+    initial: 'step1',
+    eventQueue: { policy },
+    stages: [
+      {
+        name: 'step1',
+        transitions: [{ target: 'step2', event: 'next' }],
+        onExit: onExitStep1
+      },
+      {
+        name: 'step2',
+        transitions: [
+          { target: 'step3', event: 'next' },
+          { target: 'step4', event: 'skip' }
+        ]
+      },
+      {
+        name: 'step3',
+        transitions: [{ target: 'step4', event: 'next' }]
+      },
+      {
+        name: 'step4',
+        transitions: [{ target: 'step1', event: 'restart' }]
+      }
+    ]
+  };
+}
+
+describe('Event queue', () => {
+  it('should process events sent during a transition in order', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('queue', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const second = engine.send('next');
+    const third = engine.send('next');
+    expect(engine.getCurrentStage()).toBe('step1');
+
+    gate.open();
+    await first;
+    expect(engine.getCurrentStage()).toBe('step2');
+
+    await second;
+    expect(engine.getCurrentStage()).toBe('step3');
+
+    await third;
+    expect(engine.getCurrentStage()).toBe('step4');
+  });
+
+  it('should queue direct navigation alongside events', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('queue', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const navigation = engine.goTo('step4');
+
+    gate.open();
+    await Promise.all([first, navigation]);
+
+    expect(engine.getCurrentStage()).toBe('step4');
+  });
+
+  it('should reject a queued send when its own event fails', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('queue', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const invalid = engine.goTo('missing' as WizardStage);
+
+    gate.open();
+    await first;
+    await expect(invalid).rejects.toThrow('not a valid stage name');
+    expect(engine.getCurrentStage()).toBe('step2');
+  });
+
+  it('should let hooks send events without waiting on their own transition', async () => {
+    const config = createConfig('queue');
+    config.stages[1].onEnter = async (context) => {
+      await context.send('skip');
+    };
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    await engine.send('next');
+    expect(engine.getCurrentStage()).toBe('step2');
+
+    // The hook's event runs once the transition into step2 has finished
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(engine.getCurrentStage()).toBe('step4');
+  });
+
+  it('should drop events with the drop policy', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('drop', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const dropped = engine.send('next');
+
+    gate.open();
+    await Promise.all([first, dropped]);
+
+    expect(engine.getCurrentStage()).toBe('step2');
+  });
+
+  it('should keep only the latest pending event with the replace-latest policy', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('replace-latest', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const replaced = engine.send('next');
+    const latest = engine.send('skip');
+
+    gate.open();
+    await Promise.all([first, replaced, latest]);
+
+    expect(engine.getCurrentStage()).toBe('step4');
+  });
+
+  it('should throw with the throw policy', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('throw', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    await expect(engine.send('next')).rejects.toThrow('Cannot send event while transition is in progress');
+
+    gate.open();
+    await first;
+    expect(engine.getCurrentStage()).toBe('step2');
+  });
+
+  it('should discard pending events when the engine stops', async () => {
+    const gate = createGate();
+    const engine = new StageFlowEngine(createConfig('queue', () => gate.opened));
+    await engine.start();
+
+    const first = engine.send('next');
+    const pending = engine.send('next');
+    const stopped = engine.stop();
+
+    gate.open();
+    await Promise.all([first, pending, stopped]);
+
+    expect(engine.getCurrentStage()).toBe('step2');
+  });
+
+  it('should reject an unknown policy', () => {
+    const config = createConfig('queue');
+    config.eventQueue = { policy: 'later' as EventQueuePolicy };
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Event queue: policy must be one of: queue, drop, replace-latest, preempt, throw');
+  });
+});
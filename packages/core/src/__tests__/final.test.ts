@@ -0,0 +1,148 @@
+/**
+ * Tests for final stages and flow completion
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, Plugin } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type CheckoutStage = 'cart' | 'payment' | 'complete' | 'cancelled';
+
+interface CheckoutData {
+  orderId?: string;
+  items?: string[];
+}
+
+function createConfig(): StageFlowConfig<CheckoutStage, CheckoutData> {
+  return {
+    initial: 'cart',
+    stages: [
+      {
+        name: 'cart',
+        transitions: [
+          { target: 'payment', event: 'checkout' },
+          { target: 'cancelled', event: 'cancel' }
+        ]
+      },
+      {
+        name: 'payment',
+        transitions: [
+          { target: 'complete', event: 'paid' },
+          { target: 'cart', after: 5000 }
+        ]
+      },
+      {
+        name: 'complete',
+        type: 'final',
+        transitions: [],
+        output: (data) => ({ orderId: data?.orderId })
+      },
+      { name: 'cancelled', type: 'final', transitions: [] }
+    ]
+  };
+}
+
+describe('Final stages', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve whenDone with the output of the final stage', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    const done = engine.whenDone<{ orderId?: string }>();
+
+    await engine.send('checkout');
+    await engine.send('paid', { orderId: 'A-1' });
+
+    await expect(done).resolves.toEqual({ orderId: 'A-1' });
+    expect(engine.isDone()).toBe(true);
+  });
+
+  it('should use the stage data as output when no output function is set', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await engine.send('cancel', { items: ['book'] });
+
+    await expect(engine.whenDone()).resolves.toEqual({ items: ['book'] });
+  });
+
+  it('should reject further events and navigation', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('cancel');
+
+    await expect(engine.send('checkout')).rejects.toThrow('Stage "cancelled": the flow is done');
+    await expect(engine.goTo('cart')).rejects.toThrow('the flow is done');
+    await expect(engine.back()).rejects.toThrow('the flow is done');
+    expect(engine.getCurrentStage()).toBe('cancelled');
+  });
+
+  it('should stop the timers', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('checkout');
+    expect(engine.getActiveTimers()).toHaveLength(1);
+
+    await engine.send('paid');
+
+    expect(engine.getActiveTimers()).toHaveLength(0);
+  });
+
+  it('should notify done subscribers and plugins', async () => {
+    const onDone = vi.fn();
+    const plugin: Plugin<CheckoutStage, CheckoutData> = {
+      name: 'completion',
+      install: () => {},
+      hooks: { onDone }
+    };
+    const engine = new StageFlowEngine({ ...createConfig(), plugins: [plugin] });
+    const listener = vi.fn();
+    engine.subscribeToDone(listener);
+    await engine.start();
+
+    await engine.send('checkout');
+    await engine.send('paid', { orderId: 'A-2' });
+
+    expect(listener).toHaveBeenCalledWith({ orderId: 'A-2' });
+    expect(onDone).toHaveBeenCalledWith(expect.objectContaining({ current: 'complete' }), { orderId: 'A-2' });
+  });
+
+  it('should accept events again after a reset', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('cancel');
+
+    await engine.reset();
+
+    expect(engine.isDone()).toBe(false);
+    await engine.send('checkout');
+    expect(engine.getCurrentStage()).toBe('payment');
+  });
+
+  it('should complete on start when the initial stage is final', async () => {
+    const engine = new StageFlowEngine({ ...createConfig(), initial: 'cancelled' });
+
+    await engine.start();
+
+    expect(engine.isDone()).toBe(true);
+  });
+
+  it('should validate final stages', () => {
+    const config = createConfig();
+    config.stages[3].stages = [{ name: 'cart', transitions: [] }];
+    (config.stages[2] as { output: unknown }).output = 'orderId';
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Stage "cancelled": Final stages cannot have child stages');
+    expect(result.errors).toContain('Stage "complete": output must be a function');
+  });
+});
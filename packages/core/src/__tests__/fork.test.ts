@@ -0,0 +1,204 @@
+/**
+ * Tests for forking an engine to preview event sequences
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { Plugin, StageFlowConfig } from '../types/core';
+
+type QuizStage = 'intro' | 'question' | 'timeUp' | 'result';
+
+interface QuizData {
+  score?: number;
+}
+
+function createConfig(overrides: Partial<StageFlowConfig<QuizStage, QuizData>> = {}): StageFlowConfig<QuizStage, QuizData> {
+  return {
+    initial: 'intro',
+    stages: [
+      { name: 'intro', transitions: [{ target: 'question', event: 'begin' }] },
+      {
+        name: 'question',
+        transitions: [{ target: 'result', event: 'answer' }, { target: 'timeUp', after: 30000 }]
+      },
+      { name: 'timeUp', transitions: [{ target: 'result', after: 5000 }] },
+      { name: 'result', transitions: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('Engine fork', () => {
+  it('should copy the state and history without affecting the live engine', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('begin', { score: 3 });
+    const subscriber = vi.fn();
+    engine.subscribe(subscriber);
+
+    const fork = await engine.fork();
+
+    expect(fork.getCurrentStage()).toBe('question');
+    expect(fork.getCurrentData()).toEqual({ score: 3 });
+    expect(fork.getSnapshot().history).toEqual(engine.getSnapshot().history);
+
+    await fork.send('answer', { score: 4 });
+
+    expect(fork.getCurrentStage()).toBe('result');
+    expect(engine.getCurrentStage()).toBe('question');
+    expect(engine.getCurrentData()).toEqual({ score: 3 });
+    expect(engine.getSnapshot().history).toHaveLength(2);
+    expect(subscriber).not.toHaveBeenCalled();
+
+    await engine.stop();
+  });
+
+  it('should only fire timers when virtual time advances', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('begin');
+
+    const fork = await engine.fork();
+    expect(fork.getTimerRemainingTime()).toBeGreaterThan(29000);
+
+    await fork.advanceTime(20000);
+    expect(fork.getCurrentStage()).toBe('question');
+
+    await fork.advanceTime(20000);
+    expect(fork.getCurrentStage()).toBe('result');
+    expect(engine.getCurrentStage()).toBe('question');
+
+    await expect(engine.advanceTime(1000)).rejects.toMatchObject({ code: 'VIRTUAL_TIME_UNAVAILABLE' });
+    await engine.stop();
+  });
+
+  it('should not run entry hooks again and stub hooks and plugins on request', async () => {
+    const onEnter = vi.fn();
+    const onStageEnter = vi.fn();
+    const engine = new StageFlowEngine(createConfig({
+      stages: [
+        { name: 'intro', transitions: [{ target: 'question', event: 'begin' }] },
+        { name: 'question', onEnter, transitions: [{ target: 'intro', event: 'restart' }] },
+        { name: 'timeUp', transitions: [] },
+        { name: 'result', transitions: [] }
+      ],
+      plugins: [{ name: 'tracker', install: () => undefined, hooks: { onStageEnter } }]
+    }));
+    await engine.start();
+    engine.setPluginState('tracker', { visits: 1 });
+    await engine.send('begin');
+    expect(onEnter).toHaveBeenCalledTimes(1);
+    expect(onStageEnter).toHaveBeenCalledTimes(2);
+
+    const fork = await engine.fork();
+    expect(onEnter).toHaveBeenCalledTimes(1);
+    expect(fork.getPluginState('tracker')).toEqual({ visits: 1 });
+
+    const stubbed = await engine.fork({ stubHooks: true });
+    await stubbed.send('restart');
+    await stubbed.send('begin');
+
+    expect(stubbed.getCurrentStage()).toBe('question');
+    expect(stubbed.getInstalledPlugins()).toEqual(['tracker']);
+    expect(onEnter).toHaveBeenCalledTimes(1);
+    expect(onStageEnter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never share plugin instances with the live engine', async () => {
+    const storage = new Map<string, string>();
+    const createStoragePlugin = (target: Map<string, string>): Plugin<QuizStage, QuizData> & { engine?: unknown } => {
+      const plugin: Plugin<QuizStage, QuizData> & { engine?: unknown } = {
+        name: 'storage',
+        install: engine => {
+          plugin.engine = engine;
+        },
+        uninstall: () => {
+          plugin.engine = undefined;
+        },
+        hooks: {
+          afterTransition: context => {
+            target.set('stage', context.to);
+          }
+        }
+      };
+      return plugin;
+    };
+    const plugin = createStoragePlugin(storage);
+    const engine = new StageFlowEngine(createConfig({ plugins: [plugin] }));
+    await engine.start();
+    await engine.send('begin');
+    expect(storage.get('stage')).toBe('question');
+
+    const stubbed = await engine.fork();
+    await stubbed.send('answer');
+    await stubbed.stop();
+
+    const previewStorage = new Map<string, string>();
+    const fresh = await engine.fork({ plugins: { storage: () => createStoragePlugin(previewStorage) } });
+    await fresh.send('answer');
+    await fresh.stop();
+
+    expect(previewStorage.get('stage')).toBe('result');
+    expect(storage.get('stage')).toBe('question');
+    expect(plugin.engine).toBe(engine);
+    await expect(engine.fork({ plugins: { storage: () => plugin } })).rejects.toMatchObject({ code: 'FORK_PLUGIN_SHARED' });
+
+    await engine.send('answer');
+    expect(storage.get('stage')).toBe('result');
+    await engine.stop();
+  });
+
+  it('should stub middleware and copy plugin state', async () => {
+    const track = vi.fn();
+    const analytics = {
+      name: 'analytics',
+      execute: async (_context: unknown, next: () => Promise<void>) => {
+        track();
+        await next();
+      }
+    };
+    const engine = new StageFlowEngine(createConfig({
+      middleware: [analytics],
+      plugins: [{ name: 'tracker', state: { visits: { count: 1 } }, install: () => undefined }]
+    }));
+    await engine.start();
+
+    const fork = await engine.fork();
+    (fork.getPlugin('tracker')!.state!.visits as { count: number }).count = 4;
+    (fork.getPluginState('tracker')!.visits as { count: number }).count = 5;
+    fork.setPluginState('tracker', { visits: { count: 6 } });
+    await fork.send('begin');
+    await fork.send('answer');
+
+    expect(fork.getCurrentStage()).toBe('result');
+    expect(track).not.toHaveBeenCalled();
+    expect(engine.getPluginState('tracker')).toEqual({ visits: { count: 1 } });
+
+    const tracked = vi.fn();
+    const withMiddleware = await engine.fork({
+      middleware: { analytics: () => ({ name: 'analytics', execute: async (_context, next) => { tracked(); await next(); } }) }
+    });
+    await withMiddleware.send('begin');
+    expect(tracked).toHaveBeenCalledTimes(1);
+    expect(track).not.toHaveBeenCalled();
+    await expect(engine.fork({ middleware: { analytics: () => analytics } })).rejects.toMatchObject({
+      code: 'FORK_MIDDLEWARE_SHARED'
+    });
+
+    await engine.send('begin');
+    expect(track).toHaveBeenCalledTimes(1);
+    await engine.stop();
+  });
+
+  it('should fork an engine that has not started', async () => {
+    const engine = new StageFlowEngine(createConfig());
+
+    const fork = await engine.fork();
+    expect(engine.getCurrentStage()).toBe('intro');
+
+    await fork.start();
+    await fork.send('begin');
+    expect(fork.getCurrentStage()).toBe('question');
+    expect(engine.getCurrentStage()).toBe('intro');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for global transitions declared at the configuration root
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { validateStageFlowConfig, StageFlowValidator } from '../validation';
+
+type AppStage = 'login' | 'dashboard' | 'settings' | 'profile' | 'security' | 'error';
+
+function createConfig(calls: string[] = []): StageFlowConfig<AppStage> {
+  return {
+    initial: 'login',
+    transitions: [
+      { target: 'login', event: 'logout' },
+      { target: 'error', event: 'fatalError' }
+    ],
+    stages: [
+      { name: 'login', transitions: [{ target: 'dashboard', event: 'submit' }] },
+      {
+        name: 'dashboard',
+        transitions: [
+          { target: 'settings', event: 'openSettings' },
+          { target: 'dashboard', event: 'logout', condition: (ctx) => ctx.data === 'unsaved' }
+        ]
+      },
+      {
+        name: 'settings',
+        onExit: () => { calls.push('exit:settings'); },
+        transitions: [{ target: 'dashboard', event: 'close' }],
+        stages: [
+          {
+            name: 'profile',
+            onExit: () => { calls.push('exit:profile'); },
+            transitions: [{ target: 'security', event: 'next' }]
+          },
+          { name: 'security', transitions: [] }
+        ]
+      },
+      { name: 'error', transitions: [] }
+    ]
+  };
+}
+
+describe('Global transitions', () => {
+  it('should take a global transition from any stage', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('submit');
+
+    const result = await engine.send('fatalError');
+
+    expect(engine.getCurrentStage()).toBe('error');
+    expect(result.candidates).toEqual([
+      { transition: { target: 'error', event: 'fatalError' }, status: 'selected' }
+    ]);
+  });
+
+  it('should exit every active stage when leaving a nested stage', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+    await engine.send('submit');
+    await engine.send('openSettings');
+
+    await engine.send('logout');
+
+    expect(engine.getCurrentStage()).toBe('login');
+    expect(engine.getCurrentStagePath()).toEqual(['login']);
+    expect(calls).toEqual(['exit:profile', 'exit:settings']);
+  });
+
+  it('should prefer transitions declared on the current stage', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('submit');
+    engine.setStageData('unsaved');
+
+    const result = await engine.send('logout');
+
+    expect(engine.getCurrentStage()).toBe('dashboard');
+    expect(result.candidates.map(candidate => [candidate.source, candidate.status])).toEqual([
+      ['dashboard', 'selected'],
+      [undefined, 'skipped']
+    ]);
+  });
+
+  it('should fall back to a global transition when stage conditions fail', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('submit');
+
+    await engine.send('logout');
+
+    expect(engine.getCurrentStage()).toBe('login');
+  });
+
+  it('should use a matching global transition for direct navigation', () => {
+    const engine = new StageFlowEngine(createConfig());
+
+    expect(engine['transitionManager'].findTransition('security', 'error', true)).toEqual({
+      target: 'error',
+      event: 'fatalError'
+    });
+    expect(engine['transitionManager'].findTransition('security', 'error', true, 'settings')).toBeNull();
+  });
+
+  it('should report stages reachable only through global transitions as reachable', () => {
+    const validator = new StageFlowValidator<AppStage>({ showWarnings: true });
+
+    const result = validator.validate(createConfig());
+
+    expect(result.warnings).not.toContain('Stage "error" is not reachable from the initial stage');
+    expect(result.warnings).not.toContain('Stage "security" has no outgoing transitions (potential dead end)');
+  });
+
+  it('should reject unknown targets and timers on global transitions', () => {
+    const config = createConfig();
+    config.transitions = [
+      { target: 'missing' as AppStage, event: 'logout' },
+      { target: 'login', after: 1000 }
+    ];
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Global transition 1: Target stage "missing" does not exist');
+    expect(result.errors).toContain("Global transition 2: Global transitions cannot use 'after'");
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for guarded alternatives (multiple candidate transitions per event)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, Middleware } from '../types/core';
+
+type FormStage = 'form' | 'success' | 'error' | 'review' | 'wizard' | 'details';
+
+interface FormData {
+  valid?: boolean;
+  needsReview?: boolean;
+}
+
+function createConfig(): StageFlowConfig<FormStage, FormData> {
+  return {
+    initial: 'form',
+    stages: [
+      {
+        name: 'form',
+        transitions: [
+          { target: 'review', event: 'submit', condition: (ctx) => ctx.data?.needsReview === true },
+          { target: 'success', event: 'submit', condition: (ctx) => ctx.data?.valid === true },
+          { target: 'error', event: 'submit' }
+        ]
+      },
+      { name: 'success', transitions: [] },
+      { name: 'error', transitions: [{ target: 'form', event: 'retry' }] },
+      { name: 'review', transitions: [] },
+      {
+        name: 'wizard',
+        transitions: [
+          { target: 'success', event: 'finish', condition: (ctx) => ctx.data?.valid === true },
+          { target: 'error', event: 'finish' }
+        ],
+        stages: [
+          {
+            name: 'details',
+            transitions: [{ target: 'review', event: 'finish', condition: (ctx) => ctx.data?.needsReview === true }]
+          }
+        ]
+      }
+    ]
+  };
+}
+
+describe('Guarded alternatives', () => {
+  it('should take the first candidate whose condition passes', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    engine.setStageData({ valid: true });
+
+    const result = await engine.send('submit');
+
+    expect(engine.getCurrentStage()).toBe('success');
+    expect(result.transitioned).toBe(true);
+    expect(result.selected?.target).toBe('success');
+    expect(result.candidates.map(candidate => [candidate.transition.target, candidate.status])).toEqual([
+      ['review', 'rejected'],
+      ['success', 'selected'],
+      ['error', 'skipped']
+    ]);
+    expect(result.candidates[0].reason).toBe('Condition returned false');
+  });
+
+  it('should fall through to an unguarded alternative', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    engine.setStageData({ valid: false });
+
+    const result = await engine.send('submit');
+
+    expect(engine.getCurrentStage()).toBe('error');
+    expect(result).toMatchObject({ event: 'submit', from: 'form', to: 'error', transitioned: true });
+  });
+
+  it('should report every rejection when no condition passes', async () => {
+    const config = createConfig();
+    config.stages[0].transitions.pop();
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    const result = await engine.send('submit');
+
+    expect(engine.getCurrentStage()).toBe('form');
+    expect(result.transitioned).toBe(false);
+    expect(result.selected).toBeUndefined();
+    expect(result.candidates.every(candidate => candidate.status === 'rejected')).toBe(true);
+  });
+
+  it('should return an empty candidate list for unknown events', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    const result = await engine.send('unknown');
+
+    expect(result).toEqual({ event: 'unknown', from: 'form', to: 'form', transitioned: false, candidates: [] });
+  });
+
+  it('should fall through from child candidates to parent candidates', async () => {
+    const engine = new StageFlowEngine({ ...createConfig(), initial: 'wizard' });
+    await engine.start();
+    engine.setStageData({ valid: true });
+
+    const result = await engine.send('finish');
+
+    expect(engine.getCurrentStage()).toBe('success');
+    expect(result.candidates.map(candidate => [candidate.source, candidate.status])).toEqual([
+      ['details', 'rejected'],
+      ['wizard', 'selected'],
+      ['wizard', 'skipped']
+    ]);
+  });
+
+  it('should evaluate each condition once', async () => {
+    const config = createConfig();
+    const condition = vi.fn(() => true);
+    config.stages[0].transitions[1].condition = condition;
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    await engine.send('submit');
+
+    expect(condition).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose the candidates to middleware', async () => {
+    const seen = vi.fn();
+    const middleware: Middleware<FormStage, FormData> = {
+      name: 'inspect',
+      execute: async (context, next) => {
+        seen(context.candidates?.map(candidate => candidate.status));
+        await next();
+      }
+    };
+    const engine = new StageFlowEngine({ ...createConfig(), middleware: [middleware] });
+    await engine.start();
+
+    await engine.send('submit');
+
+    expect(seen).toHaveBeenCalledWith(['rejected', 'rejected', 'selected']);
+  });
+});
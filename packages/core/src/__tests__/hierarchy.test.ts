@@ -0,0 +1,208 @@
+/**
+ * Tests for hierarchical (nested) stages
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type CheckoutStage =
+  | 'shipping'
+  | 'payment'
+  | 'cardEntry'
+  | 'cardVerify'
+  | 'review'
+  | 'cancelled';
+
+interface CheckoutData {
+  step?: string;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createConfig(calls: string[] = []): StageFlowConfig<CheckoutStage, CheckoutData> {
+  const hooks = (name: string) => ({
+    onEnter: () => { calls.push(`enter:${name}`); },
+    onExit: () => { calls.push(`exit:${name}`); }
+  });
+
+  return {
+    initial: 'shipping',
+    stages: [
+      {
+        name: 'shipping',
+        transitions: [{ target: 'payment', event: 'next' }],
+        ...hooks('shipping')
+      },
+      {
+        name: 'payment',
+        initial: 'cardEntry',
+        transitions: [
+          { target: 'shipping', event: 'back' },
+          { target: 'cancelled', event: 'cancel' }
+        ],
+        ...hooks('payment'),
+        stages: [
+          {
+            name: 'cardEntry',
+            transitions: [{ target: 'cardVerify', event: 'next' }],
+            ...hooks('cardEntry')
+          },
+          {
+            name: 'cardVerify',
+            transitions: [{ target: 'review', event: 'next' }],
+            ...hooks('cardVerify')
+          }
+        ]
+      },
+      {
+        name: 'review',
+        transitions: [{ target: 'payment', event: 'edit' }],
+        ...hooks('review')
+      },
+      {
+        name: 'cancelled',
+        transitions: [{ target: 'shipping', event: 'restart' }]
+      }
+    ]
+  };
+}
+
+describe('Hierarchical stages', () => {
+  it('should enter the initial child when a compound stage is targeted', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await engine.send('next');
+
+    expect(engine.getCurrentStage()).toBe('cardEntry');
+    expect(engine.getCurrentStagePath()).toEqual(['payment', 'cardEntry']);
+  });
+
+  it('should resolve a compound initial stage to its leaf', () => {
+    const engine = new StageFlowEngine({ ...createConfig(), initial: 'payment' });
+
+    expect(engine.getCurrentStage()).toBe('cardEntry');
+  });
+
+  it('should apply parent transitions to every child', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+    await engine.send('next');
+    expect(engine.getCurrentStage()).toBe('cardVerify');
+
+    await engine.send('cancel');
+
+    expect(engine.getCurrentStage()).toBe('cancelled');
+    expect(engine.getCurrentStagePath()).toEqual(['cancelled']);
+  });
+
+  it('should prefer the child transition over the parent for the same event', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+
+    // 'next' is declared on cardEntry; payment has no 'next' transition
+    await engine.send('next');
+
+    expect(engine.getCurrentStage()).toBe('cardVerify');
+  });
+
+  it('should run exit hooks innermost first and entry hooks outermost first', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+    calls.length = 0;
+
+    await engine.send('next');
+    expect(calls).toEqual(['exit:shipping', 'enter:payment', 'enter:cardEntry']);
+
+    calls.length = 0;
+    await engine.send('next');
+    // Moving between siblings does not exit the parent
+    expect(calls).toEqual(['exit:cardEntry', 'enter:cardVerify']);
+
+    calls.length = 0;
+    await engine.send('next');
+    expect(calls).toEqual(['exit:cardVerify', 'exit:payment', 'enter:review']);
+  });
+
+  it('should enter the full initial path on start', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine({ ...createConfig(calls), initial: 'payment' });
+
+    await engine.start();
+
+    expect(calls).toEqual(['enter:payment', 'enter:cardEntry']);
+  });
+
+  it('should keep parent timers running while moving between children', async () => {
+    vi.useFakeTimers();
+    const config = createConfig();
+    const payment = config.stages[1];
+    payment.transitions = [...payment.transitions, { target: 'cancelled', after: 1000 }];
+
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    await engine.send('next');
+
+    await vi.advanceTimersByTimeAsync(500);
+    await engine.send('next');
+    expect(engine.getCurrentStage()).toBe('cardVerify');
+
+    await vi.advanceTimersByTimeAsync(600);
+    expect(engine.getCurrentStage()).toBe('cancelled');
+  });
+
+  it('should reset to the initial leaf', async () => {
+    const engine = new StageFlowEngine({ ...createConfig(), initial: 'payment' });
+    await engine.start();
+    await engine.send('next');
+
+    await engine.reset();
+
+    expect(engine.getCurrentStage()).toBe('cardEntry');
+  });
+
+  describe('validation', () => {
+    it('should accept nested stages as transition targets', () => {
+      const result = validateStageFlowConfig(createConfig());
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).not.toContain('Stage "cardVerify" is not reachable from the initial stage');
+    });
+
+    it('should reject an initial child that is not a direct child', () => {
+      const config = createConfig();
+      config.stages[1].initial = 'review';
+
+      const result = validateStageFlowConfig(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Stage "payment": Initial child stage "review" is not a direct child');
+    });
+
+    it('should reject duplicate names across nesting levels', () => {
+      const config = createConfig();
+      config.stages[1].stages!.push({ name: 'review', transitions: [] });
+
+      const result = validateStageFlowConfig(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(error => error.includes('Duplicate stage name "review"'))).toBe(true);
+    });
+
+    it('should not report children as dead ends when the parent has transitions', () => {
+      const config = createConfig();
+      config.stages[1].stages![1].transitions = [];
+
+      const result = validateStageFlowConfig(config);
+
+      expect(result.warnings).not.toContain('Stage "cardVerify" has no outgoing transitions (potential dead end)');
+    });
+  });
+});
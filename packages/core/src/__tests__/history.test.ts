@@ -0,0 +1,156 @@
+/**
+ * Tests for history navigation (back/forward)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type WizardStage = 'account' | 'profile' | 'processing' | 'done';
+
+interface WizardData {
+  email?: string;
+  name?: string;
+}
+
+function createConfig(calls: string[] = []): StageFlowConfig<WizardStage, WizardData> {
+  return {
+    initial: 'account',
+    stages: [
+      {
+        name: 'account',
+        transitions: [{ target: 'profile', event: 'next' }],
+        onEnter: () => { calls.push('enter:account'); }
+      },
+      {
+        name: 'profile',
+        transitions: [{ target: 'processing', event: 'next' }],
+        onExit: () => { calls.push('exit:profile'); }
+      },
+      {
+        name: 'processing',
+        backTarget: false,
+        transitions: [{ target: 'done', event: 'complete' }]
+      },
+      {
+        name: 'done',
+        transitions: [{ target: 'account', event: 'restart' }]
+      }
+    ]
+  };
+}
+
+describe('History navigation', () => {
+  it('should go back and forward through visited stages', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+
+    expect(engine.canGoBack()).toBe(true);
+    expect(engine.canGoForward()).toBe(false);
+
+    await engine.back();
+    expect(engine.getCurrentStage()).toBe('account');
+    expect(engine.canGoBack()).toBe(false);
+    expect(engine.canGoForward()).toBe(true);
+
+    await engine.forward();
+    expect(engine.getCurrentStage()).toBe('profile');
+    expect(engine.canGoForward()).toBe(false);
+  });
+
+  it('should restore the data each entry had', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    engine.setStageData({ email: 'a@example.com' });
+    await engine.send('next', { email: 'a@example.com', name: 'Ada' });
+
+    await engine.back();
+    expect(engine.getCurrentData()).toEqual({ email: 'a@example.com' });
+
+    await engine.forward();
+    expect(engine.getCurrentData()).toEqual({ email: 'a@example.com', name: 'Ada' });
+  });
+
+  it('should not add history entries while navigating', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+
+    await engine.back();
+    await engine.forward();
+
+    expect(engine['stateManager'].getHistory().map(entry => entry.stage)).toEqual(['account', 'profile']);
+  });
+
+  it('should discard forward entries after a new transition', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+    await engine.back();
+
+    await engine.send('next');
+
+    expect(engine.canGoForward()).toBe(false);
+    expect(engine['stateManager'].getHistory().map(entry => entry.stage)).toEqual(['account', 'profile']);
+  });
+
+  it('should skip stages that opt out of being a back target', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+    await engine.send('next');
+    await engine.send('complete');
+
+    await engine.back();
+
+    expect(engine.getCurrentStage()).toBe('profile');
+  });
+
+  it('should run exit and entry hooks when navigating', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+    await engine.send('next');
+    calls.length = 0;
+
+    await engine.back();
+
+    expect(calls).toEqual(['exit:profile', 'enter:account']);
+  });
+
+  it('should notify subscribers with the restored stage', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next', { name: 'Ada' });
+    const listener = vi.fn();
+    engine.subscribe(listener);
+
+    await engine.back();
+
+    expect(listener).toHaveBeenCalledWith('account', undefined);
+  });
+
+  it('should throw when there is nothing to go back to', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await expect(engine.back()).rejects.toThrow('No history entry to navigate to');
+  });
+
+  it('should require a started engine', async () => {
+    const engine = new StageFlowEngine(createConfig());
+
+    await expect(engine.back()).rejects.toThrow('Engine must be started before navigation');
+  });
+
+  it('should validate backTarget', () => {
+    const config = createConfig();
+    (config.stages[2] as { backTarget: unknown }).backTarget = 'no';
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.errors).toContain('Stage "processing": backTarget must be a boolean');
+  });
+});
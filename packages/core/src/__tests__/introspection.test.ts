@@ -0,0 +1,106 @@
+/**
+ * Tests for inspecting the transitions available from the active stages
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+
+type OrderStage = 'cart' | 'checkout' | 'address' | 'payment' | 'confirmed' | 'cancelled';
+
+interface OrderData {
+  items?: number;
+}
+
+function createConfig(): StageFlowConfig<OrderStage, OrderData> {
+  return {
+    initial: 'cart',
+    stages: [
+      {
+        name: 'cart',
+        transitions: [
+          { target: 'checkout', event: 'checkout', condition: context => (context.data?.items ?? 0) > 0 },
+          { target: 'cancelled', after: 60000 }
+        ]
+      },
+      {
+        name: 'checkout',
+        initial: 'address',
+        transitions: [{ target: 'cart', event: 'back' }],
+        stages: [
+          { name: 'address', transitions: [{ target: 'payment', event: 'next' }] },
+          { name: 'payment', transitions: [{ target: 'confirmed', event: 'pay', condition: () => false }] }
+        ]
+      },
+      { name: 'confirmed', type: 'final', transitions: [] },
+      { name: 'cancelled', transitions: [] }
+    ],
+    transitions: [{ target: 'cancelled', event: 'cancel' }]
+  };
+}
+
+describe('Transition introspection', () => {
+  it('should evaluate events without side effects', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    const subscriber = vi.fn();
+    const lifecycle = vi.fn();
+    engine.subscribe(subscriber);
+    engine.on('eventIgnored', lifecycle);
+    engine.on('transitionRejected', lifecycle);
+
+    expect(await engine.can('checkout')).toBe(false);
+    expect(await engine.can('unknown')).toBe(false);
+    expect(await engine.can('cancel')).toBe(true);
+
+    engine.setStageData({ items: 2 });
+    expect(await engine.can('checkout')).toBe(true);
+
+    expect(engine.getCurrentStage()).toBe('cart');
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(lifecycle).not.toHaveBeenCalled();
+  });
+
+  it('should list available events with their targets and guard status', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await expect(engine.getAvailableEvents()).resolves.toEqual([
+      { event: 'checkout', blocked: true },
+      { event: 'cancel', target: 'cancelled', blocked: false }
+    ]);
+
+    await engine.goTo('payment');
+
+    await expect(engine.getAvailableEvents()).resolves.toEqual([
+      { event: 'pay', blocked: true },
+      { event: 'back', target: 'cart', blocked: false },
+      { event: 'cancel', target: 'cancelled', blocked: false }
+    ]);
+  });
+
+  it('should list reachable stages including timed transitions', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await expect(engine.getReachableStages()).resolves.toEqual([
+      { stage: 'checkout', events: ['checkout'], blocked: true },
+      { stage: 'cancelled', events: ['cancel'], blocked: false }
+    ]);
+
+    await engine.stop();
+  });
+
+  it('should report nothing before start and once the flow is done', async () => {
+    const engine = new StageFlowEngine(createConfig());
+
+    expect(await engine.can('cancel')).toBe(false);
+    await expect(engine.getAvailableEvents()).resolves.toEqual([]);
+
+    await engine.start();
+    await engine.goTo('confirmed');
+
+    expect(await engine.can('cancel')).toBe(false);
+    await expect(engine.getReachableStages()).resolves.toEqual([]);
+  });
+});
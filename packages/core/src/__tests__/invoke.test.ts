@@ -0,0 +1,150 @@
+/**
+ * Tests for services invoked by stages
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type ProfileStage = 'loading' | 'profile' | 'failed' | 'cancelled';
+
+interface ProfileData {
+  name?: string;
+  message?: string;
+}
+
+function createDeferred<T>() {
+  let resolve: (value: T) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function createConfig(
+  src: (signal: AbortSignal) => Promise<ProfileData | void>
+): StageFlowConfig<ProfileStage, ProfileData> {
+  return {
+    initial: 'loading',
+    stages: [
+      {
+        name: 'loading',
+        invoke: {
+          src: (_context, signal) => src(signal),
+          onDone: { target: 'profile' },
+          onError: {
+            target: 'failed',
+            actions: [(data, _payload, context) => ({ ...data, message: (context.error as Error).message })]
+          }
+        },
+        transitions: [{ target: 'cancelled', event: 'cancel' }]
+      },
+      { name: 'profile', transitions: [{ target: 'loading', event: 'reload' }] },
+      { name: 'failed', transitions: [{ target: 'loading', event: 'retry' }] },
+      { name: 'cancelled', transitions: [] }
+    ]
+  };
+}
+
+describe('Invoked services', () => {
+  it('should take the onDone transition with the result as data', async () => {
+    const engine = new StageFlowEngine(createConfig(async () => ({ name: 'Ada' })));
+
+    await engine.start();
+    await flush();
+
+    expect(engine.getCurrentStage()).toBe('profile');
+    expect(engine.getCurrentData()).toEqual({ name: 'Ada' });
+  });
+
+  it('should validate the result against the target stage like other stage data', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const engine = new StageFlowEngine(createConfig(async () => 'Ada' as unknown as ProfileData));
+
+      await engine.start();
+      await flush();
+
+      expect(engine.getCurrentStage()).toBe('profile');
+      expect(warn).toHaveBeenCalledWith('Stage "profile" data should be an object, got string');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should take the onError transition and expose the error', async () => {
+    const engine = new StageFlowEngine(createConfig(async () => {
+      throw new Error('Network down');
+    }));
+
+    await engine.start();
+    await flush();
+
+    expect(engine.getCurrentStage()).toBe('failed');
+    expect(engine.getCurrentData()).toEqual({ message: 'Network down' });
+  });
+
+  it('should abort the service and ignore its result when the stage is exited', async () => {
+    const deferred = createDeferred<ProfileData>();
+    let signal: AbortSignal | undefined;
+    const engine = new StageFlowEngine(createConfig(serviceSignal => {
+      signal = serviceSignal;
+      return deferred.promise;
+    }));
+    await engine.start();
+
+    await engine.send('cancel');
+    deferred.resolve({ name: 'Ada' });
+    await flush();
+
+    expect(signal?.aborted).toBe(true);
+    expect(engine.getCurrentStage()).toBe('cancelled');
+  });
+
+  it('should start the service again when the stage is re-entered', async () => {
+    const src = vi.fn(async () => ({ name: 'Ada' }));
+    const engine = new StageFlowEngine(createConfig(src));
+    await engine.start();
+    await flush();
+
+    await engine.send('reload');
+    await flush();
+
+    expect(src).toHaveBeenCalledTimes(2);
+    expect(engine.getCurrentStage()).toBe('profile');
+  });
+
+  it('should abort services when the engine stops', async () => {
+    let signal: AbortSignal | undefined;
+    const engine = new StageFlowEngine(createConfig(serviceSignal => {
+      signal = serviceSignal;
+      return new Promise(() => {});
+    }));
+    await engine.start();
+
+    await engine.stop();
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should validate the invoke configuration', () => {
+    const config = createConfig(async () => undefined);
+    config.stages[0].invoke = {
+      src: 'fetch' as unknown as () => Promise<void>,
+      onDone: { target: 'missing' as ProfileStage }
+    };
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Stage "loading" invoke: src must be a function');
+    expect(result.errors).toContain('Stage "loading" invoke onDone: Target stage "missing" does not exist');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for engine lifecycle events
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+
+type OrderStage = 'cart' | 'payment' | 'done';
+
+interface OrderData {
+  paid?: boolean;
+}
+
+function createConfig(overrides: Partial<StageFlowConfig<OrderStage, OrderData>> = {}): StageFlowConfig<OrderStage, OrderData> {
+  return {
+    initial: 'cart',
+    stages: [
+      { name: 'cart', transitions: [{ target: 'payment', event: 'checkout' }] },
+      {
+        name: 'payment',
+        transitions: [{ target: 'done', event: 'confirm', condition: context => context.data?.paid === true }]
+      },
+      { name: 'done', transitions: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('Lifecycle events', () => {
+  it('should emit start, stop and reset', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    const events: string[] = [];
+    engine.on('start', ({ stage }) => events.push(`start:${stage}`));
+    engine.on('stop', ({ stage }) => events.push(`stop:${stage}`));
+    engine.on('reset', ({ stage }) => events.push(`reset:${stage}`));
+
+    await engine.start();
+    await engine.send('checkout');
+    await engine.reset();
+    await engine.stop();
+
+    expect(events).toEqual(['start:cart', 'stop:payment', 'start:cart', 'reset:cart', 'stop:cart']);
+  });
+
+  it('should emit ignored events and rejected transitions', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    const ignored = vi.fn();
+    const rejected = vi.fn();
+    engine.on('eventIgnored', ignored);
+    engine.on('transitionRejected', rejected);
+    await engine.start();
+
+    await engine.send('confirm');
+    expect(ignored).toHaveBeenCalledWith({ event: 'confirm', stage: 'cart' });
+
+    await engine.send('checkout');
+    await engine.send('confirm');
+    expect(rejected).toHaveBeenCalledTimes(1);
+    expect(rejected.mock.calls[0][0]).toMatchObject({
+      event: 'confirm',
+      from: 'payment',
+      candidates: [{ status: 'rejected', reason: 'Condition returned false' }]
+    });
+    expect(ignored).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit hook errors', async () => {
+    const error = new Error('enter failed');
+    const engine = new StageFlowEngine(createConfig({
+      stages: [
+        { name: 'cart', transitions: [{ target: 'payment', event: 'checkout' }] },
+        {
+          name: 'payment',
+          onEnter: () => {
+            throw error;
+          },
+          transitions: []
+        },
+        { name: 'done', transitions: [] }
+      ]
+    }));
+    const listener = vi.fn();
+    engine.on('hookError', listener);
+    await engine.start();
+
+    await expect(engine.send('checkout')).rejects.toThrow();
+
+    expect(listener).toHaveBeenCalledWith({ stage: 'payment', hook: 'onEnter', error });
+  });
+
+  it('should stop calling removed listeners', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    const listener = vi.fn();
+    const off = engine.on('start', listener);
+    off();
+
+    await engine.start();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for goTo() navigation policies
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, NavigationPolicy, Middleware } from '../types/core';
+import { TransitionError } from '../types/errors';
+import { validateStageFlowConfig } from '../validation';
+
+type SignupStage = 'email' | 'verify' | 'profile' | 'help';
+
+interface SignupData {
+  verified?: boolean;
+}
+
+function createConfig(navigation?: NavigationPolicy<SignupStage>): StageFlowConfig<SignupStage, SignupData> {
+  return {
+    initial: 'email',
+    navigation,
+    stages: [
+      { name: 'email', transitions: [{ target: 'verify', event: 'next' }] },
+      {
+        name: 'verify',
+        transitions: [
+          { target: 'profile', event: 'next', condition: (ctx) => ctx.data?.verified === true },
+          { target: 'email', event: 'back' }
+        ]
+      },
+      { name: 'profile', transitions: [] },
+      { name: 'help', transitions: [{ target: 'email', event: 'close' }] }
+    ]
+  };
+}
+
+describe('Navigation policy', () => {
+  it('should allow undeclared jumps by default', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+
+    await expect(engine.goTo('profile')).resolves.toEqual({
+      from: 'email',
+      to: 'profile',
+      transitioned: true,
+      candidates: []
+    });
+
+    expect(engine.getCurrentStage()).toBe('profile');
+  });
+
+  it('should report a declared transition whose condition fails without throwing by default', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('next');
+
+    const result = await engine.goTo('profile');
+
+    expect(result).toMatchObject({ from: 'verify', to: 'verify', transitioned: false });
+    expect(result.selected).toBeUndefined();
+    expect(result.candidates).toEqual([
+      expect.objectContaining({ source: 'verify', status: 'rejected', reason: 'Condition returned false' })
+    ]);
+  });
+
+  it('should reject undeclared jumps with declared-only', async () => {
+    const engine = new StageFlowEngine(createConfig('declared-only'));
+    await engine.start();
+
+    const navigation = engine.goTo('profile');
+
+    await expect(navigation).rejects.toThrow(TransitionError);
+    await expect(navigation).rejects.toMatchObject({ code: 'NAVIGATION_NOT_ALLOWED' });
+    expect(engine.getCurrentStage()).toBe('email');
+  });
+
+  it('should follow declared transitions with declared-only', async () => {
+    const engine = new StageFlowEngine(createConfig('declared-only'));
+    await engine.start();
+
+    await engine.goTo('verify');
+
+    expect(engine.getCurrentStage()).toBe('verify');
+  });
+
+  it('should run the declared condition and reject when it fails', async () => {
+    const engine = new StageFlowEngine(createConfig('declared-only'));
+    await engine.start();
+    await engine.goTo('verify');
+
+    await expect(engine.goTo('profile')).rejects.toThrow(
+      'Stage "verify": navigation to "profile" is not allowed because no transition condition passed'
+    );
+
+    engine.setStageData({ verified: true });
+    await engine.goTo('profile');
+    expect(engine.getCurrentStage()).toBe('profile');
+  });
+
+  it('should run the declared transition middleware', async () => {
+    const execute = vi.fn(async (_context, next: () => Promise<void>) => {
+      await next();
+    });
+    const middleware: Middleware<SignupStage, SignupData> = { name: 'guard', execute };
+    const config = createConfig('declared-only');
+    config.stages[0].transitions[0].middleware = [middleware];
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    await engine.goTo('verify');
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow direct jumps to allowlisted stages', async () => {
+    const engine = new StageFlowEngine(createConfig({ allowlist: ['help'] }));
+    await engine.start();
+
+    await engine.goTo('help');
+    expect(engine.getCurrentStage()).toBe('help');
+
+    await expect(engine.goTo('profile')).rejects.toMatchObject({ code: 'NAVIGATION_NOT_ALLOWED' });
+  });
+
+  it('should let a stage policy override the engine policy', async () => {
+    const config = createConfig('declared-only');
+    config.stages[0].navigation = 'free';
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    await engine.goTo('profile');
+
+    expect(engine.getCurrentStage()).toBe('profile');
+  });
+
+  it('should not apply the policy to history navigation and error or timeout redirects', async () => {
+    const config = createConfig('declared-only');
+    config.transitionErrorPolicy = { target: 'help' };
+    config.stages[2] = {
+      name: 'profile',
+      onEnter: () => {
+        throw new Error('Profile unavailable');
+      },
+      transitions: []
+    };
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    await engine.send('next');
+
+    engine.setStageData({ verified: true });
+    const result = await engine.send('next');
+    expect(result.to).toBe('help');
+
+    // help declares no transition to verify; back() still returns there
+    await engine.back();
+    expect(engine.getCurrentStage()).toBe('verify');
+  });
+
+  it('should validate navigation policies', () => {
+    const config = createConfig({ allowlist: ['missing' as SignupStage] });
+    config.stages[1].navigation = 'strict' as NavigationPolicy<SignupStage>;
+
+    const result = validateStageFlowConfig(config);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Navigation: navigation allowlist stage "missing" does not exist');
+    expect(result.errors).toContain(
+      'Stage "verify": navigation must be \'free\', \'declared-only\' or { allowlist: [...] }'
+    );
+  });
+});
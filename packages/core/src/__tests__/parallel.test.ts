@@ -0,0 +1,259 @@
+/**
+ * Tests for parallel (orthogonal) regions
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { validateStageFlowConfig } from '../validation';
+
+type EditorStage =
+  | 'idle'
+  | 'editing'
+  | 'upload'
+  | 'uploading'
+  | 'uploaded'
+  | 'uploadFailed'
+  | 'form'
+  | 'details'
+  | 'confirm'
+  | 'done';
+
+interface EditorData {
+  title?: string;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createConfig(calls: string[] = []): StageFlowConfig<EditorStage, EditorData> {
+  const hooks = (name: string) => ({
+    onEnter: () => { calls.push(`enter:${name}`); },
+    onExit: () => { calls.push(`exit:${name}`); }
+  });
+
+  return {
+    initial: 'idle',
+    stages: [
+      {
+        name: 'idle',
+        transitions: [{ target: 'editing', event: 'open' }]
+      },
+      {
+        name: 'editing',
+        type: 'parallel',
+        transitions: [{ target: 'done', event: 'finish' }],
+        ...hooks('editing'),
+        stages: [
+          {
+            name: 'upload',
+            transitions: [],
+            ...hooks('upload'),
+            stages: [
+              {
+                name: 'uploading',
+                transitions: [
+                  { target: 'uploaded', event: 'uploadComplete' },
+                  { target: 'uploadFailed', event: 'reset' }
+                ],
+                ...hooks('uploading')
+              },
+              { name: 'uploaded', transitions: [], ...hooks('uploaded') },
+              { name: 'uploadFailed', transitions: [{ target: 'uploading', event: 'retry' }] }
+            ]
+          },
+          {
+            name: 'form',
+            transitions: [],
+            ...hooks('form'),
+            stages: [
+              {
+                name: 'details',
+                transitions: [{ target: 'confirm', event: 'next' }],
+                ...hooks('details')
+              },
+              {
+                name: 'confirm',
+                transitions: [
+                  { target: 'details', event: 'back' },
+                  { target: 'details', event: 'reset' }
+                ],
+                ...hooks('confirm')
+              }
+            ]
+          }
+        ]
+      },
+      {
+        name: 'done',
+        transitions: [{ target: 'idle', event: 'restart' }]
+      }
+    ]
+  };
+}
+
+describe('Parallel regions', () => {
+  it('should enter every region when a parallel stage is entered', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+
+    await engine.send('open');
+
+    expect(engine.getCurrentStage()).toBe('editing');
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploading', form: 'details' });
+    expect(calls).toEqual([
+      'enter:editing',
+      'enter:upload',
+      'enter:uploading',
+      'enter:form',
+      'enter:details'
+    ]);
+  });
+
+  it('should move each region independently', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+    await engine.send('open');
+    calls.length = 0;
+
+    await engine.send('next');
+
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploading', form: 'confirm' });
+    expect(calls).toEqual(['exit:details', 'enter:confirm']);
+
+    await engine.send('uploadComplete');
+
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploaded', form: 'confirm' });
+  });
+
+  it('should broadcast events to every region', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open');
+    await engine.send('next');
+
+    // Both regions declare 'reset'
+    await engine.send('reset');
+
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploadFailed', form: 'details' });
+  });
+
+  it('should exit every region when the parallel stage handles an event', async () => {
+    const calls: string[] = [];
+    const engine = new StageFlowEngine(createConfig(calls));
+    await engine.start();
+    await engine.send('open');
+    calls.length = 0;
+
+    await engine.send('finish');
+
+    expect(engine.getCurrentStage()).toBe('done');
+    expect(engine.getRegionStages()).toEqual({});
+    expect(calls).toEqual([
+      'exit:details',
+      'exit:form',
+      'exit:uploading',
+      'exit:upload',
+      'exit:editing'
+    ]);
+  });
+
+  it('should report the combined state to subscribers', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    const listener = vi.fn();
+    engine.subscribe(listener);
+
+    await engine.send('open');
+    await engine.send('next', { title: 'Draft' });
+
+    expect(listener).toHaveBeenNthCalledWith(1, 'editing', undefined, { upload: 'uploading', form: 'details' });
+    expect(listener).toHaveBeenNthCalledWith(2, 'editing', { title: 'Draft' }, { upload: 'uploading', form: 'confirm' });
+  });
+
+  it('should keep shared data when a region moves without new data', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open', { title: 'Draft' });
+
+    await engine.send('uploadComplete');
+
+    expect(engine.getCurrentData()).toEqual({ title: 'Draft' });
+  });
+
+  it('should navigate directly within a single region', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('open');
+
+    await engine.goTo('uploaded');
+
+    expect(engine.getCurrentStage()).toBe('editing');
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploaded', form: 'details' });
+  });
+
+  it('should run timers for each region separately', async () => {
+    vi.useFakeTimers();
+    const config = createConfig();
+    const editing = config.stages[1];
+    editing.stages![0].stages![0].transitions.push({ target: 'uploaded', after: 1000 });
+    editing.stages![1].stages![0].transitions.push({ target: 'confirm', after: 3000 });
+
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    await engine.send('open');
+
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploaded', form: 'details' });
+    expect(engine.getStageTimers('details')).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploaded', form: 'confirm' });
+  });
+
+  it('should start in every region when the initial stage is parallel', async () => {
+    const engine = new StageFlowEngine({ ...createConfig(), initial: 'editing' });
+    await engine.start();
+
+    expect(engine.getCurrentStage()).toBe('editing');
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploading', form: 'details' });
+
+    await engine.send('finish');
+    await engine.reset();
+
+    expect(engine.getRegionStages()).toEqual({ upload: 'uploading', form: 'details' });
+  });
+
+  describe('validation', () => {
+    it('should treat every region as reachable', () => {
+      const result = validateStageFlowConfig(createConfig());
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).not.toContain('Stage "form" is not reachable from the initial stage');
+      expect(result.warnings).not.toContain('Stage "details" is not reachable from the initial stage');
+    });
+
+    it('should reject nested parallel stages', () => {
+      const config = createConfig();
+      config.stages[1].stages![1].type = 'parallel';
+
+      const result = validateStageFlowConfig(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Stage "editing": Parallel stages cannot be nested inside another parallel stage');
+    });
+
+    it('should reject an initial child on a parallel stage', () => {
+      const config = createConfig();
+      config.stages[1].initial = 'upload';
+
+      const result = validateStageFlowConfig(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Stage "editing": Parallel stages enter every region and cannot set an initial child stage');
+    });
+  });
+});
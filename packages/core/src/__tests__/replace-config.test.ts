@@ -0,0 +1,151 @@
+/**
+ * Tests for replacing the configuration of a live engine
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+import { ConfigurationError } from '../types/errors';
+
+type ArticleStage = 'draft' | 'review' | 'legalReview' | 'editorReview' | 'published';
+
+interface ArticleData {
+  title?: string;
+}
+
+function createConfig(): StageFlowConfig<ArticleStage, ArticleData> {
+  return {
+    initial: 'draft',
+    stages: [
+      { name: 'draft', transitions: [{ target: 'legalReview', event: 'submit' }] },
+      { name: 'legalReview', transitions: [{ target: 'published', event: 'approve' }] },
+      { name: 'published', type: 'final', transitions: [] }
+    ]
+  };
+}
+
+function createNextConfig(): StageFlowConfig<ArticleStage, ArticleData> {
+  return {
+    initial: 'draft',
+    stages: [
+      { name: 'draft', effect: 'fadeIn', transitions: [{ target: 'editorReview', event: 'submit' }] },
+      { name: 'editorReview', transitions: [{ target: 'published', event: 'approve' }] },
+      { name: 'published', type: 'final', transitions: [] }
+    ]
+  };
+}
+
+describe('Configuration replacement', () => {
+  it('should keep the stage, data, history and plugin state', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.installPlugin({ name: 'counter', install: () => undefined });
+    await engine.start();
+    engine.setPluginState('counter', { count: 1 });
+    engine.setStageData({ title: 'Release notes' });
+    const history = engine.getSnapshot().history;
+    const changes = vi.fn();
+    engine.subscribeToChanges(changes);
+
+    engine.replaceConfig(createNextConfig());
+
+    expect(engine.getCurrentStage()).toBe('draft');
+    expect(engine.getCurrentData()).toEqual({ title: 'Release notes' });
+    expect(engine.getSnapshot().history).toEqual(history);
+    expect(engine.getPluginState('counter')).toEqual({ count: 1 });
+    expect(engine.getStageEffect('draft')).toBe('fadeIn');
+    expect(changes).toHaveBeenCalledWith(expect.objectContaining({ kind: 'config', from: 'draft', to: 'draft' }));
+
+    await expect(engine.send('submit')).resolves.toMatchObject({ to: 'editorReview', transitioned: true });
+  });
+
+  it('should map stages that no longer exist', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('submit');
+
+    engine.replaceConfig(createNextConfig(), {
+      mapStage: stage => (stage === 'legalReview' ? 'editorReview' : undefined)
+    });
+
+    expect(engine.getCurrentStage()).toBe('editorReview');
+    expect(engine.getSnapshot().history.map(entry => entry.stage)).toEqual(['draft', 'editorReview']);
+
+    engine.replaceConfig(createConfig());
+
+    expect(engine.getCurrentStage()).toBe('draft');
+    expect(engine.getSnapshot().history.map(entry => entry.stage)).toEqual(['draft', 'draft']);
+  });
+
+  it('should re-arm the timers of the active stages against the new transitions', async () => {
+    vi.useFakeTimers();
+    try {
+      const config = createConfig();
+      config.stages[0] = {
+        name: 'draft',
+        transitions: [{ target: 'legalReview', event: 'submit' }, { target: 'legalReview', after: 1000 }]
+      };
+      const engine = new StageFlowEngine(config);
+      await engine.start();
+      await vi.advanceTimersByTimeAsync(400);
+
+      const unchanged = createConfig();
+      unchanged.stages[0] = config.stages[0];
+      unchanged.stages[1] = { ...unchanged.stages[1], effect: 'slideUp' };
+      engine.replaceConfig(unchanged);
+      expect(engine.getTimerRemainingTime()).toBe(600);
+
+      const next = createNextConfig();
+      next.stages[0] = { name: 'draft', transitions: [{ target: 'editorReview', after: 2000 }] };
+      engine.replaceConfig(next);
+      expect(engine.getTimerRemainingTime()).toBe(2000);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(engine.getCurrentStage()).toBe('editorReview');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should keep the construction-only event queue, clock and event log', async () => {
+    const engine = new StageFlowEngine({
+      ...createConfig(),
+      eventQueue: { policy: 'queue' },
+      eventLog: true,
+      clock: { now: () => 1000 }
+    });
+    await engine.start();
+
+    const next = createNextConfig();
+    next.stages[1] = {
+      name: 'editorReview',
+      onEnter: () => new Promise(resolve => setTimeout(resolve, 10)),
+      transitions: [{ target: 'published', event: 'approve' }]
+    };
+    engine.replaceConfig({ ...next, eventQueue: { policy: 'throw' }, eventLog: false, clock: { now: () => 2000 } });
+
+    const submitted = engine.send('submit');
+    await expect(engine.send('approve')).resolves.toMatchObject({ to: 'published', transitioned: true });
+    await submitted;
+
+    expect(engine.getEventLog().map(entry => [entry.type, entry.time])).toEqual([
+      ['send', 1000],
+      ['send', 1000]
+    ]);
+  });
+
+  it('should leave the engine unchanged when the replacement is rejected', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('submit');
+
+    const invalid = createNextConfig();
+    invalid.stages[1] = { name: 'editorReview', transitions: [{ target: 'missing' as ArticleStage }] };
+    expect(() => engine.replaceConfig(invalid)).toThrow(ConfigurationError);
+    expect(() => engine.replaceConfig(createNextConfig(), { mapStage: () => 'review' })).toThrow(
+      'Stage "legalReview" was mapped to "review", which does not exist in the new configuration'
+    );
+
+    expect(engine.getCurrentStage()).toBe('legalReview');
+    await expect(engine.send('approve')).resolves.toMatchObject({ to: 'published', transitioned: true });
+  });
+});
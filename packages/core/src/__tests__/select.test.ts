@@ -0,0 +1,83 @@
+/**
+ * Tests for selector subscriptions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { shallowEqual } from '../state-manager';
+import { StageFlowConfig } from '../types/core';
+
+type FormStage = 'form' | 'review';
+
+interface FormData {
+  email?: string;
+  name?: string;
+}
+
+const config: StageFlowConfig<FormStage, FormData> = {
+  initial: 'form',
+  stages: [
+    { name: 'form', transitions: [{ target: 'review', event: 'next' }] },
+    { name: 'review', transitions: [] }
+  ]
+};
+
+describe('Selector subscriptions', () => {
+  it('should call the listener only when the selected slice changes', async () => {
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    const listener = vi.fn();
+
+    engine.select(state => state.data?.email, listener);
+
+    engine.patchStageData({ name: 'Ada' });
+    engine.patchStageData({ name: 'Ada Lovelace' });
+    expect(listener).not.toHaveBeenCalled();
+
+    engine.patchStageData({ email: 'ada@example.com' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('ada@example.com', undefined);
+
+    await engine.send('next', engine.getCurrentData());
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should compare slices with the given equality function', async () => {
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    const byReference = vi.fn();
+    const byValue = vi.fn();
+
+    engine.select(state => ({ stage: state.stage, email: state.data?.email }), byReference);
+    engine.select(state => ({ stage: state.stage, email: state.data?.email }), byValue, shallowEqual);
+
+    engine.patchStageData({ name: 'Ada' });
+    expect(byReference).toHaveBeenCalledTimes(1);
+    expect(byValue).not.toHaveBeenCalled();
+
+    await engine.send('next');
+    expect(byValue).toHaveBeenCalledWith({ stage: 'review', email: undefined }, { stage: 'form', email: undefined });
+  });
+
+  it('should stop calling the listener after unsubscribing', async () => {
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    const listener = vi.fn();
+
+    const unsubscribe = engine.select(state => state.stage, listener);
+    unsubscribe();
+    await engine.send('next');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('shallowEqual', () => {
+  it('should compare plain objects key by key', () => {
+    expect(shallowEqual({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toBe(true);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(shallowEqual({ a: { nested: true } }, { a: { nested: true } })).toBe(false);
+    expect(shallowEqual([1], [1])).toBe(false);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for engine snapshots
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { SNAPSHOT_VERSION } from '../snapshot-manager';
+import { StageFlowConfig, StageFlowSnapshot } from '../types/core';
+import { StageFlowError } from '../types/errors';
+
+type QuizStage = 'intro' | 'question' | 'timeout' | 'result';
+
+interface QuizData {
+  answers?: string[];
+}
+
+function createConfig(onEnter = vi.fn()): StageFlowConfig<QuizStage, QuizData> {
+  return {
+    initial: 'intro',
+    stages: [
+      { name: 'intro', transitions: [{ target: 'question', event: 'begin' }] },
+      {
+        name: 'question',
+        onEnter,
+        transitions: [
+          { target: 'result', event: 'answer' },
+          { target: 'timeout', after: 1000 }
+        ]
+      },
+      { name: 'timeout', transitions: [] },
+      { name: 'result', type: 'final', transitions: [] }
+    ]
+  };
+}
+
+describe('Engine snapshots', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should capture the runtime state in a JSON-safe document', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.installPlugin({ name: 'scores', install: () => {} });
+    await engine.send('begin', { answers: ['a'] });
+    engine.setPluginState('scores', { best: 3 });
+    vi.advanceTimersByTime(400);
+
+    const snapshot = engine.getSnapshot();
+
+    expect(snapshot).toMatchObject({
+      version: SNAPSHOT_VERSION,
+      current: 'question',
+      data: { answers: ['a'] },
+      historyIndex: 1,
+      done: false,
+      plugins: { scores: { best: 3 } },
+      timers: [{ stage: 'question', target: 'timeout', duration: 1000, remainingTime: 600, isPaused: false }]
+    });
+    expect(snapshot.history.map(entry => entry.stage)).toEqual(['intro', 'question']);
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    await engine.stop();
+  });
+
+  it('should restore a started engine without running stage hooks', async () => {
+    const onEnter = vi.fn();
+    const source = new StageFlowEngine(createConfig(onEnter));
+    await source.start();
+    await source.send('begin', { answers: ['a'] });
+    vi.advanceTimersByTime(400);
+    const snapshot = source.getSnapshot();
+    await source.stop();
+
+    const engine = new StageFlowEngine(createConfig(onEnter));
+    await engine.start();
+    const subscriber = vi.fn();
+    engine.subscribe(subscriber);
+    engine.restore(snapshot);
+
+    expect(engine.getCurrentStage()).toBe('question');
+    expect(engine.getCurrentData()).toEqual({ answers: ['a'] });
+    expect(engine.canGoBack()).toBe(true);
+    expect(onEnter).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith('question', { answers: ['a'] });
+
+    await vi.advanceTimersByTimeAsync(599);
+    expect(engine.getCurrentStage()).toBe('question');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(engine.getCurrentStage()).toBe('timeout');
+    await engine.stop();
+  });
+
+  it('should keep paused timers paused', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('begin');
+    vi.advanceTimersByTime(300);
+    engine.pauseTimers();
+
+    const restored = StageFlowEngine.fromSnapshot(createConfig(), engine.getSnapshot());
+    await engine.stop();
+    await restored.start();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(restored.getCurrentStage()).toBe('question');
+    expect(restored.areTimersPaused()).toBe(true);
+
+    restored.resumeTimers();
+    await vi.advanceTimersByTimeAsync(700);
+    expect(restored.getCurrentStage()).toBe('timeout');
+    await restored.stop();
+  });
+
+  it('should keep the timers of stages with hyphenated names', async () => {
+    type StepStage = 'step-one' | 'step-one-done' | 'time-up';
+    const config: StageFlowConfig<StepStage> = {
+      initial: 'step-one',
+      stages: [
+        {
+          name: 'step-one',
+          transitions: [{ target: 'step-one-done', event: 'next' }, { target: 'time-up', after: 1000 }]
+        },
+        { name: 'step-one-done', transitions: [] },
+        { name: 'time-up', transitions: [] }
+      ]
+    };
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+    vi.advanceTimersByTime(400);
+
+    const timer = { stage: 'step-one', target: 'time-up', duration: 1000, remainingTime: 600 };
+    expect(engine.getSnapshot().timers).toEqual([{ ...timer, isPaused: false }]);
+
+    engine.restore(engine.getSnapshot());
+    engine.pauseTimers();
+    expect(engine.getSnapshot().timers).toEqual([{ ...timer, isPaused: true }]);
+
+    engine.restore(engine.getSnapshot());
+    expect(engine.areTimersPaused()).toBe(true);
+    engine.resumeTimers();
+    await vi.advanceTimersByTimeAsync(600);
+    expect(engine.getCurrentStage()).toBe('time-up');
+    await engine.stop();
+  });
+
+  it('should restore completion state', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    await engine.start();
+    await engine.send('begin');
+    await engine.send('answer', { answers: ['b'] });
+
+    const restored = StageFlowEngine.fromSnapshot(createConfig(), engine.getSnapshot());
+    await restored.start();
+
+    expect(restored.isDone()).toBe(true);
+    await expect(restored.whenDone()).resolves.toEqual({ answers: ['b'] });
+    await expect(restored.send('begin')).rejects.toThrow('the flow is done');
+  });
+
+  it('should reject unsupported versions and unknown stages', () => {
+    const engine = new StageFlowEngine(createConfig());
+    const snapshot = engine.getSnapshot();
+
+    expect(() => engine.restore({ ...snapshot, version: 99 })).toThrow(
+      `Snapshot version 99 is not supported (expected ${SNAPSHOT_VERSION})`
+    );
+
+    const unknownStage = { ...snapshot, current: 'missing' } as unknown as StageFlowSnapshot<QuizStage, QuizData>;
+    expect(() => engine.restore(unknownStage)).toThrow(StageFlowError);
+    expect(() => engine.restore(unknownStage)).toThrow('Snapshot stage "missing" does not exist');
+    expect(engine.getCurrentStage()).toBe('intro');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for per-stage data types
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, StageState } from '../types/core';
+
+type CheckoutStage = 'form' | 'success';
+
+type CheckoutDataMap = {
+  form: { fields: Record<string, string> };
+  success: { receiptId: string };
+};
+
+type CheckoutData = CheckoutDataMap[CheckoutStage];
+
+function createEngine() {
+  const config: StageFlowConfig<CheckoutStage, CheckoutData> = {
+    initial: 'form',
+    stages: [
+      { name: 'form', transitions: [{ target: 'success', event: 'submit' }] },
+      { name: 'success', transitions: [{ target: 'form', event: 'restart' }] }
+    ]
+  };
+  return new StageFlowEngine<CheckoutStage, CheckoutData, Record<string, CheckoutData | undefined>, CheckoutDataMap>(config);
+}
+
+describe('Per-stage data', () => {
+  it('should narrow the current state by stage', async () => {
+    const engine = createEngine();
+    await engine.start();
+
+    await engine.goTo('success', { receiptId: 'R-1' });
+    const state = engine.getCurrentState();
+
+    expectTypeOf(state).toEqualTypeOf<StageState<CheckoutStage, CheckoutDataMap>>();
+    expect(state.stage).toBe('success');
+    if (state.stage === 'success') {
+      expectTypeOf(state.data).toEqualTypeOf<{ receiptId: string } | undefined>();
+      expect(state.data?.receiptId).toBe('R-1');
+    }
+  });
+
+  it('should return data for the given stage only while it is current', async () => {
+    const engine = createEngine();
+    await engine.start();
+    engine.setStageData({ fields: { email: 'a@example.com' } });
+
+    expectTypeOf(engine.getCurrentData('form')).toEqualTypeOf<{ fields: Record<string, string> } | undefined>();
+    expect(engine.getCurrentData('form')?.fields.email).toBe('a@example.com');
+    expect(engine.getCurrentData('success')).toBeUndefined();
+    expectTypeOf(engine.getCurrentData()).toEqualTypeOf<CheckoutData | undefined>();
+  });
+
+  it('should require the target stage data shape in goTo()', async () => {
+    const engine = createEngine();
+    await engine.start();
+
+    // @ts-expect-error - 'success' data needs a receiptId
+    await engine.goTo('success', { fields: {} });
+
+    expectTypeOf(engine.goTo<'success'>).parameter(1).toEqualTypeOf<{ receiptId: string } | undefined>();
+  });
+
+  it('should keep a single data type without a stage data map', async () => {
+    const engine = new StageFlowEngine<CheckoutStage, { note?: string }>({
+      initial: 'form',
+      stages: [{ name: 'form', transitions: [] }, { name: 'success', transitions: [] }]
+    });
+    await engine.start();
+
+    await engine.goTo('success', { note: 'done' });
+
+    expectTypeOf(engine.getCurrentData()).toEqualTypeOf<{ note?: string } | undefined>();
+    expect(engine.getCurrentState()).toEqual({ stage: 'success', data: { note: 'done' } });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for transition step timeouts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+
+type BookingStage = 'search' | 'seats' | 'confirm' | 'unavailable';
+
+interface BookingData {
+  flight?: string;
+}
+
+const never = (): Promise<void> => new Promise<void>(() => undefined);
+
+function createConfig(overrides: Partial<StageFlowConfig<BookingStage, BookingData>> = {}): StageFlowConfig<BookingStage, BookingData> {
+  return {
+    initial: 'search',
+    stages: [
+      { name: 'search', transitions: [{ target: 'seats', event: 'select' }] },
+      { name: 'seats', transitions: [{ target: 'confirm', event: 'next' }] },
+      { name: 'confirm', transitions: [] },
+      { name: 'unavailable', transitions: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('Transition timeouts', () => {
+  it('should time out a hook using the transition timeout and roll back', async () => {
+    const engine = new StageFlowEngine(createConfig({
+      timeouts: { hooks: 1000 },
+      stages: [
+        { name: 'search', transitions: [{ target: 'seats', event: 'select', timeout: 10 }] },
+        { name: 'seats', onEnter: never, transitions: [] },
+        { name: 'confirm', transitions: [] },
+        { name: 'unavailable', transitions: [] }
+      ]
+    }));
+    const hookError = vi.fn();
+    engine.on('hookError', hookError);
+    await engine.start();
+
+    await expect(engine.send('select', { flight: 'BA117' })).rejects.toMatchObject({
+      code: 'TRANSITION_TIMEOUT',
+      message: 'Transition to "seats": onEnter hook of "seats" timed out after 10ms',
+      context: { to: 'seats', step: 'hooks', timeout: 10 }
+    });
+
+    expect(engine.getCurrentStage()).toBe('search');
+    expect(engine.getCurrentData()).toBeUndefined();
+    expect(hookError).not.toHaveBeenCalled();
+  });
+
+  it('should apply the default timeout to plugin hooks', async () => {
+    const engine = new StageFlowEngine(createConfig({
+      timeouts: { pluginHooks: 10 },
+      plugins: [{ name: 'slow-audit', install: () => undefined, hooks: { beforeTransition: never } }]
+    }));
+    await engine.start();
+
+    await expect(engine.send('select')).rejects.toMatchObject({
+      code: 'TRANSITION_TIMEOUT',
+      message: 'Transition to "seats": plugin hook "beforeTransition" timed out after 10ms'
+    });
+    expect(engine.getCurrentStage()).toBe('search');
+  });
+
+  it('should enter the timeout stage when a condition times out', async () => {
+    const onEnter = vi.fn();
+    const engine = new StageFlowEngine(createConfig({
+      timeouts: { condition: 10, target: 'unavailable' },
+      stages: [
+        { name: 'search', transitions: [{ target: 'seats', event: 'select', condition: () => new Promise<boolean>(() => undefined) }] },
+        { name: 'seats', transitions: [] },
+        { name: 'confirm', transitions: [] },
+        { name: 'unavailable', onEnter, transitions: [] }
+      ]
+    }));
+    await engine.start();
+
+    await expect(engine.send('select')).rejects.toMatchObject({ code: 'TRANSITION_TIMEOUT' });
+
+    expect(engine.getCurrentStage()).toBe('unavailable');
+    expect(onEnter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid timeout configuration', () => {
+    expect(() => new StageFlowEngine(createConfig({ timeouts: { hooks: -1 } }))).toThrow(
+      'Timeouts: hooks must be a positive number'
+    );
+    expect(() => new StageFlowEngine(createConfig({ timeouts: { target: 'missing' as BookingStage } }))).toThrow(
+      'Timeouts: target stage "missing" does not exist'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for transitions failing while their target is entered
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig } from '../types/core';
+
+type SignupStage = 'account' | 'profile' | 'verify' | 'error';
+
+interface SignupData {
+  email?: string;
+}
+
+const enterError = new Error('Profile service unavailable');
+
+function createConfig(overrides: Partial<StageFlowConfig<SignupStage, SignupData>> = {}): StageFlowConfig<SignupStage, SignupData> {
+  return {
+    initial: 'account',
+    stages: [
+      {
+        name: 'account',
+        transitions: [{ target: 'profile', event: 'next' }, { target: 'verify', after: 60000 }]
+      },
+      {
+        name: 'profile',
+        onEnter: () => {
+          throw enterError;
+        },
+        transitions: [{ target: 'verify', after: 60000 }]
+      },
+      { name: 'verify', transitions: [] },
+      { name: 'error', transitions: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('Transactional transitions', () => {
+  it('should roll back a transition whose onEnter throws', async () => {
+    const engine = new StageFlowEngine(createConfig());
+    const failed = vi.fn();
+    const subscriber = vi.fn();
+    engine.on('transitionFailed', failed);
+    await engine.start();
+    engine.setStageData({ email: 'ada@example.com' });
+    const historyBefore = engine.getSnapshot().history;
+    engine.subscribe(subscriber);
+
+    await expect(engine.send('next', { email: 'grace@example.com' })).rejects.toMatchObject({
+      name: 'TransitionError',
+      code: 'TRANSITION_ROLLED_BACK',
+      message: 'Transition from "account" to "profile" was rolled back: Profile service unavailable',
+      context: { failure: { outcome: 'rolled-back', stage: 'account', error: enterError } }
+    });
+
+    expect(engine.getCurrentStage()).toBe('account');
+    expect(engine.getCurrentData()).toEqual({ email: 'ada@example.com' });
+    expect(engine.getSnapshot().history).toEqual(historyBefore);
+    expect(engine.getTimerRemainingTime()).toBeGreaterThan(0);
+    expect(subscriber).not.toHaveBeenCalled();
+    expect(failed).toHaveBeenCalledWith({
+      outcome: 'rolled-back',
+      from: 'account',
+      to: 'profile',
+      stage: 'account',
+      event: 'next',
+      error: enterError
+    });
+
+    await engine.stop();
+  });
+
+  it('should keep the target stage with the commit policy', async () => {
+    const engine = new StageFlowEngine(createConfig({ transitionErrorPolicy: 'commit' }));
+    const subscriber = vi.fn();
+    await engine.start();
+    engine.subscribe(subscriber);
+
+    const result = await engine.send('next', { email: 'grace@example.com' });
+
+    expect(result).toMatchObject({
+      to: 'profile',
+      transitioned: true,
+      failure: { outcome: 'committed', from: 'account', to: 'profile', stage: 'profile', error: enterError }
+    });
+    expect(subscriber).toHaveBeenCalledWith('profile', { email: 'grace@example.com' });
+    expect(engine.getTimerRemainingTime()).toBeGreaterThan(0);
+
+    await engine.stop();
+  });
+
+  it('should enter the error stage with a target policy', async () => {
+    const onError = vi.fn();
+    const config = createConfig({ transitionErrorPolicy: { target: 'error' } });
+    config.stages[3] = { name: 'error', onEnter: onError, transitions: [] };
+    const engine = new StageFlowEngine(config);
+    await engine.start();
+
+    const result = await engine.send('next');
+
+    expect(result.to).toBe('error');
+    expect(result.failure).toMatchObject({ outcome: 'redirected', to: 'profile', stage: 'error' });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(engine.getSnapshot().history.map(entry => entry.stage)).toEqual(['account', 'error']);
+  });
+
+  it('should report failures of goTo() and back() through their result', async () => {
+    const engine = new StageFlowEngine(createConfig({ transitionErrorPolicy: 'commit' }));
+    await engine.start();
+
+    const result = await engine.goTo('profile');
+
+    expect(result).toEqual({
+      from: 'account',
+      to: 'profile',
+      transitioned: true,
+      selected: { target: 'profile', event: 'next' },
+      candidates: [{ transition: { target: 'profile', event: 'next' }, source: 'account', status: 'selected' }],
+      failure: expect.objectContaining({ outcome: 'committed', stage: 'profile', error: enterError })
+    });
+    await expect(engine.back()).resolves.toMatchObject({ from: 'profile', to: 'account', transitioned: true, candidates: [] });
+    await expect(engine.forward()).resolves.toMatchObject({
+      to: 'profile',
+      failure: { outcome: 'committed', error: enterError }
+    });
+
+    const rollback = new StageFlowEngine(createConfig());
+    await rollback.start();
+    await expect(rollback.goTo('profile')).rejects.toMatchObject({
+      code: 'TRANSITION_ROLLED_BACK',
+      context: { failure: { outcome: 'rolled-back', from: 'account', to: 'profile' } }
+    });
+    expect(rollback.getCurrentStage()).toBe('account');
+
+    await engine.stop();
+    await rollback.stop();
+  });
+
+  it('should reject an unknown error stage', () => {
+    expect(() => new StageFlowEngine(createConfig({ transitionErrorPolicy: { target: 'missing' as SignupStage } }))).toThrow(
+      'Transition error policy: target stage "missing" does not exist'
+    );
+  });
+});
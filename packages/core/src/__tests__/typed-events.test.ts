@@ -0,0 +1,83 @@
+/**
+ * Tests for typed event maps
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { StageFlowEngine } from '../engine';
+import { StageFlowConfig, Transition } from '../types/core';
+
+type CheckoutStage = 'cart' | 'details' | 'done';
+
+interface CheckoutData {
+  email?: string;
+  items?: string[];
+}
+
+type CheckoutEvents = {
+  next: undefined;
+  submit: { email: string };
+  reset: undefined;
+};
+
+function createConfig(): StageFlowConfig<CheckoutStage, CheckoutData, CheckoutEvents> {
+  return {
+    initial: 'cart',
+    transitions: [{ target: 'cart', event: 'reset' }],
+    stages: [
+      { name: 'cart', transitions: [{ target: 'details', event: 'next' }] },
+      { name: 'details', transitions: [{ target: 'done', event: 'submit' }] },
+      { name: 'done', transitions: [] }
+    ]
+  };
+}
+
+describe('Typed events', () => {
+  it('should send declared events with their payloads', async () => {
+    const engine = new StageFlowEngine<CheckoutStage, CheckoutData, CheckoutEvents>(createConfig());
+    await engine.start();
+
+    await engine.send('next');
+    await engine.send('submit', { email: 'a@example.com' });
+
+    expect(engine.getCurrentStage()).toBe('done');
+    expect(engine.getCurrentData()).toEqual({ email: 'a@example.com' });
+  });
+
+  it('should type send() parameters from the event map', () => {
+    const engine = new StageFlowEngine<CheckoutStage, CheckoutData, CheckoutEvents>(createConfig());
+
+    expectTypeOf(engine.send<'submit'>).parameter(0).toEqualTypeOf<'submit'>();
+    expectTypeOf(engine.send<'submit'>).parameter(1).toEqualTypeOf<{ email: string }>();
+    expectTypeOf(engine.send<'next'>).parameters.toEqualTypeOf<['next', (undefined)?]>();
+
+    // @ts-expect-error - 'sumbit' is not a declared event
+    void engine.send('sumbit').catch(() => {});
+    // @ts-expect-error - 'submit' requires its payload
+    void engine.send('submit').catch(() => {});
+  });
+
+  it('should only allow declared event names in transitions', () => {
+    expectTypeOf<Transition<CheckoutStage, CheckoutData, CheckoutEvents>['event']>()
+      .toEqualTypeOf<'next' | 'submit' | 'reset' | undefined>();
+
+    const transition: Transition<CheckoutStage, CheckoutData, CheckoutEvents> = {
+      target: 'done',
+      // @ts-expect-error - 'finish' is not a declared event
+      event: 'finish'
+    };
+    expect(transition.target).toBe('done');
+  });
+
+  it('should accept any event name without an event map', async () => {
+    const engine = new StageFlowEngine<CheckoutStage, CheckoutData>({
+      initial: 'cart',
+      stages: [{ name: 'cart', transitions: [{ target: 'done', event: 'anything' }] }, { name: 'done', transitions: [] }]
+    });
+    await engine.start();
+
+    await engine.send('anything', { items: [] });
+
+    expectTypeOf(engine.send).parameter(0).toEqualTypeOf<string>();
+    expect(engine.getCurrentStage()).toBe('done');
+  });
+});
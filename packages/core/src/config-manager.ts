@@ -0,0 +1,356 @@
+/**
+ * Configuration management system for StageFlow
+ *
+ * This module handles changes to the configuration of a live engine including:
+ * - Adding, updating and removing stages, and adding transitions
+ * - Replacing the whole configuration while keeping the runtime state
+ * - Validating the changed configuration before anything is applied
+ * - Rebuilding the stage map, hierarchy and type checker in one step
+ * - Keeping the timers of active stages in line with their transitions
+ */
+
+import {
+  StageConfig,
+  StageFlowConfig,
+  StageFlowEngine,
+  Transition,
+  RemoveStageOptions,
+  ReplaceConfigOptions,
+  TimerSnapshot
+} from './types/core';
+import { StageFlowError, TransitionError } from './types/errors';
+import { validateStageFlowConfigStrict } from './validation';
+import { ActiveConfiguration, StageHierarchy, flattenStages } from './stage-hierarchy';
+import { StateCheckpoint } from './state-manager';
+
+/**
+ * Configuration manager class that applies configuration changes to a live engine
+ */
+export class ConfigManager<TStage extends string, TData = unknown> {
+  private engine: StageFlowEngine<TStage, TData> | null = null;
+
+  /**
+   * Sets the engine reference for the configuration manager
+   */
+  setEngine(engine: StageFlowEngine<TStage, TData>): void {
+    this.engine = engine;
+  }
+
+  /**
+   * Adds a stage, at the top level or as a child of `parent`
+   */
+  addStage(stage: StageConfig<TStage, TData>, parent?: TStage): void {
+    const config = this.getConfig();
+
+    if (parent === undefined) {
+      this.apply({ ...config, stages: [...config.stages, stage] });
+      return;
+    }
+
+    this.assertStageExists(parent);
+    this.apply({
+      ...config,
+      stages: mapStages(config.stages, existing =>
+        existing.name === parent ? { ...existing, stages: [...(existing.stages ?? []), stage] } : existing
+      )
+    });
+  }
+
+  /**
+   * Replaces properties of a stage; its name and child stages are kept
+   */
+  updateStage(name: TStage, changes: Partial<Omit<StageConfig<TStage, TData>, 'name'>>): void {
+    this.assertStageExists(name);
+    const config = this.getConfig();
+
+    this.apply({
+      ...config,
+      stages: mapStages(config.stages, existing =>
+        existing.name === name ? { ...existing, ...changes, name, stages: changes.stages ?? existing.stages } : existing
+      )
+    });
+    this.refreshTimers(name);
+  }
+
+  /**
+   * Appends a transition to a stage
+   */
+  addTransition(stage: TStage, transition: Transition<TStage, TData>): void {
+    this.assertStageExists(stage);
+    const config = this.getConfig();
+
+    this.apply({
+      ...config,
+      stages: mapStages(config.stages, existing =>
+        existing.name === stage ? { ...existing, transitions: [...existing.transitions, transition] } : existing
+      )
+    });
+    this.refreshTimers(stage);
+  }
+
+  /**
+   * Removes a stage with its child stages and every transition leading to them
+   *
+   * An active stage is only removed with `migrateTo`: the engine first
+   * transitions there, running the usual exit and entry hooks. History
+   * entries of the removed stages are dropped.
+   */
+  async removeStage(name: TStage, options: RemoveStageOptions<TStage, TData> = {}): Promise<void> {
+    const engine = this.getEngine();
+    this.assertStageExists(name);
+    const config = this.getConfig();
+
+    const removed = new Set(flattenStages([engine.stageMap.get(name)]).map(stage => stage.name as TStage));
+    if (removed.has(config.initial)) {
+      throw new StageFlowError(`Stage "${name}": the initial stage cannot be removed`, 'STAGE_REMOVAL_NOT_ALLOWED', { stage: name });
+    }
+
+    const withoutRemoved = (transitions: Transition<TStage, TData>[]): Transition<TStage, TData>[] =>
+      transitions.filter(transition => !removed.has(transition.target));
+    const next: StageFlowConfig<TStage, TData> = {
+      ...config,
+      stages: mapStages(
+        config.stages.filter(stage => !removed.has(stage.name)),
+        stage => ({
+          ...stage,
+          transitions: withoutRemoved(stage.transitions),
+          ...(stage.stages ? { stages: stage.stages.filter(child => !removed.has(child.name)) } : {})
+        })
+      ),
+      ...(config.transitions ? { transitions: withoutRemoved(config.transitions) } : {})
+    };
+
+    const active = [...removed].some(stage => engine._isStageActive(stage));
+    if (active) {
+      if (options.migrateTo === undefined) {
+        throw new StageFlowError(
+          `Stage "${name}" is active; pass migrateTo to move the engine to another stage first`,
+          'STAGE_REMOVAL_NOT_ALLOWED',
+          { stage: name }
+        );
+      }
+      if (removed.has(options.migrateTo)) {
+        throw new StageFlowError(
+          `Stage "${name}": cannot migrate to "${options.migrateTo}", which is removed with it`,
+          'STAGE_REMOVAL_NOT_ALLOWED',
+          { stage: name, migrateTo: options.migrateTo }
+        );
+      }
+      // Check the result before leaving the stage, so a rejected change leaves everything as it was
+      validateStageFlowConfigStrict(next, engine.validationOptions);
+      await this.migrate(options.migrateTo, options.data);
+      if ([...removed].some(stage => engine._isStageActive(stage))) {
+        throw new StageFlowError(
+          `Stage "${name}": the engine did not leave the stage, so it was not removed`,
+          'STAGE_REMOVAL_NOT_ALLOWED',
+          { stage: name, migrateTo: options.migrateTo }
+        );
+      }
+    }
+
+    this.apply(next);
+
+    // History entries of removed stages can no longer be navigated to or restored
+    const checkpoint: StateCheckpoint<TStage, TData> = engine.stateManager.checkpoint();
+    const history = checkpoint.history.filter(entry => !removed.has(entry.stage));
+    if (history.length !== checkpoint.history.length) {
+      const index = engine.stateManager.getHistoryIndex();
+      const kept = checkpoint.history.slice(0, index + 1).filter(entry => !removed.has(entry.stage));
+      engine.stateManager.restoreCheckpoint({
+        ...checkpoint,
+        history,
+        historyIndex: Math.min(Math.max(kept.length - 1, 0), history.length - 1)
+      });
+    }
+  }
+
+  /**
+   * Replaces the whole configuration, mapping the runtime state onto it
+   *
+   * The new configuration is validated and every stage is mapped before
+   * anything changes. No hooks run; timers and services of the active stages
+   * are brought in line with the new configuration. The event queue, clock
+   * and event log are set up at construction and keep their current settings.
+   */
+  replace(config: StageFlowConfig<TStage, TData>, options: ReplaceConfigOptions<TStage> = {}): void {
+    const engine = this.getEngine();
+    if (engine.stateManager.isTransitioning()) {
+      throw new TransitionError('Cannot replace the configuration while a transition is in progress');
+    }
+    validateStageFlowConfigStrict(config, engine.validationOptions);
+
+    const hierarchy = new StageHierarchy<TStage, TData>(config.stages);
+    const stages = new Set(flattenStages(config.stages).map(stage => stage.name as TStage));
+    const mapStage = (stage: TStage): TStage => {
+      if (stages.has(stage)) {
+        return stage;
+      }
+      const mapped = options.mapStage?.(stage);
+      if (mapped === undefined) {
+        return config.initial;
+      }
+      if (!stages.has(mapped)) {
+        throw new StageFlowError(
+          `Stage "${stage}" was mapped to "${mapped}", which does not exist in the new configuration`,
+          'INVALID_STAGE_MAPPING',
+          { stage, mapped }
+        );
+      }
+      return mapped;
+    };
+
+    const previous: ActiveConfiguration<TStage> = engine._getActiveConfiguration();
+    const configuration = hierarchy.getInitialConfiguration(mapStage(previous.current));
+    if (configuration.regions && previous.regions) {
+      for (const region of hierarchy.getChildren(configuration.current)) {
+        const leaf = previous.regions[region];
+        const mapped = leaf !== undefined ? mapStage(leaf) : undefined;
+        if (mapped !== undefined && hierarchy.isDescendantOf(mapped, region)) {
+          configuration.regions[region] = hierarchy.resolveInitial(mapped);
+        }
+      }
+    }
+    const checkpoint: StateCheckpoint<TStage, TData> = engine.stateManager.checkpoint();
+    const history = checkpoint.history.map(entry => ({ ...entry, stage: mapStage(entry.stage) }));
+
+    const previousStages: TStage[] = engine._getActiveStages();
+    const timers: TimerSnapshot<TStage>[] = engine.timerManager.getTimerSnapshots();
+    engine.timerManager.clearAllTimers();
+
+    const { eventQueue, clock, eventLog } = engine.config;
+    this.commit({ ...config, eventQueue, clock, eventLog });
+    engine.stateManager.restoreCheckpoint({ ...checkpoint, ...configuration, history });
+    engine.eventLog?.clear();
+
+    if (engine.lifecycleManager.isEngineStarted() && !engine.stateManager.isDone()) {
+      const activeStages: TStage[] = engine._getActiveStages();
+      for (const stage of previousStages) {
+        if (!activeStages.includes(stage)) {
+          engine._stopInvoke(stage);
+        }
+      }
+      for (const stage of activeStages) {
+        this.armTimers(stage, timers);
+      }
+      engine._startInvokes(activeStages.filter(stage => !previousStages.includes(stage)));
+    }
+
+    engine._notifySubscribers(configuration.current, checkpoint.data, {
+      kind: 'config',
+      from: previous.current,
+      previousData: checkpoint.data
+    });
+  }
+
+  /**
+   * Validates a changed configuration and makes it the engine's configuration
+   *
+   * Nothing changes when validation fails.
+   */
+  apply(config: StageFlowConfig<TStage, TData>): void {
+    validateStageFlowConfigStrict(config, this.getEngine().validationOptions);
+    this.commit(config);
+  }
+
+  /**
+   * Moves the engine to a stage before the active one is removed
+   */
+  private async migrate(target: TStage, data?: TData): Promise<void> {
+    const engine = this.getEngine();
+    if (!engine.lifecycleManager.isEngineStarted()) {
+      engine._updateActiveConfiguration(engine.stageHierarchy.getInitialConfiguration(target));
+      engine._updateStageData(data ?? engine.stageMap.get(target)?.data);
+      return;
+    }
+    if (engine.stateManager.isTransitioning()) {
+      throw new TransitionError('Cannot remove an active stage while a transition is in progress');
+    }
+
+    await engine.transitionManager.executeTransition(
+      { target },
+      data,
+      undefined,
+      engine.stateManager.getCurrentStage()
+    );
+  }
+
+  /**
+   * Makes a validated configuration the engine's configuration
+   *
+   * Stage configurations are looked up by name, so the stage map is refilled
+   * in place for every manager sharing it.
+   */
+  private commit(config: StageFlowConfig<TStage, TData>): void {
+    const engine = this.getEngine();
+    engine.config = config;
+    engine.buildStageMap();
+    engine.stageHierarchy.rebuild(config.stages);
+    engine.runtimeTypeChecker.updateConfig(config);
+    engine.transitionManager.updateConfig(config);
+    engine.lifecycleManager.updateConfig(config);
+  }
+
+  /**
+   * Re-arms the timers of an active stage after its transitions changed
+   */
+  private refreshTimers(stage: TStage): void {
+    const engine = this.getEngine();
+    if (!engine.lifecycleManager.isEngineStarted() || !engine._isStageActive(stage) || engine.stateManager.isDone()) {
+      return;
+    }
+
+    const timers: TimerSnapshot<TStage>[] = engine.timerManager.getTimerSnapshots();
+    engine._clearStageTimers(stage);
+    this.armTimers(stage, timers);
+  }
+
+  /**
+   * Arms the timers of a stage whose timers are cleared
+   *
+   * Timers whose transition is unchanged keep the time they had left; a new
+   * timed transition starts counting now.
+   */
+  private armTimers(stage: TStage, timers: TimerSnapshot<TStage>[]): void {
+    const engine = this.getEngine();
+    const stageConfig: StageConfig<TStage, TData> = engine.stageMap.get(stage);
+    const kept = timers.filter(timer =>
+      timer.stage === stage &&
+      stageConfig.transitions.some(transition => transition.target === timer.target && transition.after === timer.duration)
+    );
+
+    if (kept.length > 0) {
+      engine._restoreTimers(kept);
+    } else {
+      engine._setupStageTimers(stage, stageConfig);
+    }
+  }
+
+  private assertStageExists(stage: TStage): void {
+    if (!this.getEngine().stageMap.has(stage)) {
+      throw new StageFlowError(`Stage "${stage}" does not exist`, 'STAGE_NOT_FOUND', { stage });
+    }
+  }
+
+  private getConfig(): StageFlowConfig<TStage, TData> {
+    return this.getEngine().config;
+  }
+
+  private getEngine(): any {
+    if (!this.engine) {
+      throw new StageFlowError('Engine not set', 'ENGINE_NOT_SET');
+    }
+    return this.engine as any;
+  }
+}
+
+/**
+ * Maps every stage of a (possibly nested) stage array, children first
+ */
+function mapStages<TStage extends string, TData>(
+  stages: StageConfig<TStage, TData>[],
+  map: (stage: StageConfig<TStage, TData>) => StageConfig<TStage, TData>
+): StageConfig<TStage, TData>[] {
+  return stages.map(stage =>
+    map(stage.stages ? { ...stage, stages: mapStages(stage.stages, map) } : stage)
+  );
+}
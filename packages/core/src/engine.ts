@@ -5,8 +5,8 @@
  * state transitions with full TypeScript support, plugin system, and middleware pipeline.
  */
 
-import { StageFlowConfig, StageConfig, StageFlowState, Transition, TransitionContext, Plugin, Middleware, StageFlowEngine as IStageFlowEngine, EffectConfig } from "./types/core";
-import { TransitionError, ConfigurationError, PluginError } from "./types/errors";
+import { StageFlowConfig, StageConfig, StageFlowState, Transition, TransitionContext, Plugin, Middleware, StageFlowEngine as IStageFlowEngine, EffectConfig, RegionStages, TransitionResult, EventMap, EventName, EventArgs, StageDataMap, StageState, StageFlowSnapshot, TimerSnapshot, StageDataUpdater, StageChange, StageFlowLifecycleEvents, StageFlowLifecycleEventName, StageFlowClock, EventLogEntry, EventLogInput, EventLogResult, ReplayOptions, ReplayMismatch, ReplayResult, RemoveStageOptions, ReplaceConfigOptions, AvailableEvent, ReachableStage, ForkOptions } from "./types/core";
+import { TransitionError, ConfigurationError, PluginError, StageFlowError } from "./types/errors";
 import { validateStageFlowConfigStrict, RuntimeTypeChecker, ValidationOptions } from "./validation";
 import { TimerManager } from "./timer-manager";
 import { PluginManager } from "./plugin-manager";
@@ -14,6 +14,14 @@ import { TransitionManager } from "./transition-manager";
 import { MiddlewareManager } from "./middleware-manager";
 import { StateManager } from "./state-manager";
 import { LifecycleManager } from "./lifecycle-manager";
+import { StageHierarchy, ActiveConfiguration, flattenStages } from "./stage-hierarchy";
+import { EventQueue } from "./event-queue";
+import { InvokeManager, InvokeOutcome } from "./invoke-manager";
+import { SnapshotManager } from "./snapshot-manager";
+import { ConfigManager } from "./config-manager";
+import { EventLog, isSameResult } from "./event-log";
+import { VirtualTimeline } from "./virtual-time";
+import { LifecycleEventEmitter } from "./lifecycle-events";
 
 /**
  * Core stage flow engine implementation with generic type support
@@ -24,6 +32,10 @@ import { LifecycleManager } from "./lifecycle-manager";
  *
  * @template TStage - Union type of all possible stage names (must extend string)
  * @template TData - Type of data associated with stages (defaults to unknown)
+ * @template TEvents - Map of event names to their payload types; when given, send()
+ *                     only accepts declared events with their payload type
+ * @template TDataMap - Map of stage names to each stage's data type; when given,
+ *                      goTo() and getCurrentData() are typed per stage
  *
  * @example
  * ```typescript
@@ -71,7 +83,12 @@ import { LifecycleManager } from "./lifecycle-manager";
  * await engine.goTo('error', { error: 'Something went wrong' });
  * ```
  */
-export class StageFlowEngine<TStage extends string, TData = unknown> implements IStageFlowEngine<TStage, TData> {
+export class StageFlowEngine<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+> implements IStageFlowEngine<TStage, TData, TEvents, TDataMap> {
   private config: StageFlowConfig<TStage, TData>;
   private state: StageFlowState<TStage, TData>;
   private timerManager: TimerManager<TStage, TData>;
@@ -81,40 +98,77 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
   private stateManager: StateManager<TStage, TData>;
   private lifecycleManager: LifecycleManager<TStage, TData>;
   private stageMap: Map<TStage, StageConfig<TStage, TData>>;
+  private stageHierarchy: StageHierarchy<TStage, TData>;
   private runtimeTypeChecker: RuntimeTypeChecker<TStage, TData>;
+  private eventQueue: EventQueue;
+  private invokeManager: InvokeManager<TStage, TData>;
+  private snapshotManager: SnapshotManager<TStage, TData>;
+  private configManager = new ConfigManager<TStage, TData>();
+  private validationOptions: ValidationOptions;
+  private clock: StageFlowClock;
+  private eventLog: EventLog<TStage, TData> | null;
+  private lifecycleEvents = new LifecycleEventEmitter<TStage, TData>();
+  private liveServices = true;
+  private virtualTime: VirtualTimeline | null = null;
+  private activeDispatches = 0;
+  private transitionCount = 0;
+  private transitionController: AbortController | null = null;
+
+  constructor(typedConfig: StageFlowConfig<TStage, TData, TEvents>, validationOptions: ValidationOptions = {}) {
+    // Event payload types only constrain callers of send(); internally events are plain strings
+    const config = typedConfig as StageFlowConfig<TStage, TData>;
 
-  constructor(config: StageFlowConfig<TStage, TData>, validationOptions: ValidationOptions = {}) {
     // Validate configuration using the new validation system
     validateStageFlowConfigStrict(config, validationOptions);
 
     this.config = config;
+    this.validationOptions = validationOptions;
+    this.clock = config.clock ?? { now: () => Date.now() };
+    this.eventLog = config.eventLog ? new EventLog<TStage, TData>(this.clock) : null;
     this.timerManager = new TimerManager<TStage, TData>();
     this.pluginManager = new PluginManager<TStage, TData>();
     this.middlewareManager = new MiddlewareManager<TStage, TData>();
     this.stageMap = new Map();
+    this.stageHierarchy = new StageHierarchy<TStage, TData>(config.stages);
+    this.eventQueue = new EventQueue(config.eventQueue?.policy);
+    this.invokeManager = new InvokeManager<TStage, TData>();
 
     // Build stage map for efficient lookups
     this.buildStageMap();
 
+    this.snapshotManager = new SnapshotManager<TStage, TData>(this.stageMap);
+
     // Initialize runtime type checker
     this.runtimeTypeChecker = new RuntimeTypeChecker(config);
 
     // Initialize transition manager
-    this.transitionManager = new TransitionManager<TStage, TData>(this.stageMap, this.runtimeTypeChecker);
+    this.transitionManager = new TransitionManager<TStage, TData>(
+      this.stageMap,
+      this.runtimeTypeChecker,
+      this.stageHierarchy,
+      config.transitions,
+      config.navigation,
+      config.timeouts,
+      config.transitionErrorPolicy
+    );
 
-    // Get initial stage data
-    const initialStageConfig = this.stageMap.get(config.initial);
-    const initialData = initialStageConfig?.data;
+    // Resolve the initial stage down to its leaf (compound stages enter their initial child,
+    // parallel stages enter every region)
+    const initialConfiguration = this.stageHierarchy.getInitialConfiguration(config.initial);
+    const initialStage = initialConfiguration.current;
+    const initialStageConfig = this.stageMap.get(initialStage);
+    const initialData = initialStageConfig?.data ?? this.stageMap.get(config.initial)?.data;
 
     // Initialize state
     this.state = {
-      current: config.initial,
+      current: initialStage,
+      regions: initialConfiguration.regions,
       data: initialData,
       isTransitioning: false,
       history: [
         {
-          stage: config.initial,
-          timestamp: Date.now(),
+          stage: initialStage,
+          timestamp: this.clock.now(),
           data: initialData,
         },
       ],
@@ -123,10 +177,10 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     };
 
     // Initialize StateManager
-    this.stateManager = new StateManager<TStage, TData>(this.state, this.stageMap);
+    this.stateManager = new StateManager<TStage, TData>(this.state, this.stageMap, this.clock);
 
     // Initialize LifecycleManager
-    this.lifecycleManager = new LifecycleManager<TStage, TData>(config, this.stageMap);
+    this.lifecycleManager = new LifecycleManager<TStage, TData>(config, this.stageMap, this.stageHierarchy);
 
     // Add initial middleware to MiddlewareManager
     if (config.middleware) {
@@ -138,6 +192,8 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     // Set engine reference for managers
     this.pluginManager.setEngine(this);
     this.transitionManager.setEngine(this);
+    this.snapshotManager.setEngine(this);
+    this.configManager.setEngine(this);
 
     // Install initial plugins if provided
     if (config.plugins) {
@@ -146,17 +202,12 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
       }
     }
 
-    // Set up timers for the initial stage
-    if (initialStageConfig) {
-      this.timerManager.setupStageTimers(
-        config.initial,
-        initialStageConfig,
-        this._executeTransition.bind(this),
-        () => this.stateManager.getCurrentStage(),
-        () => this.lifecycleManager.isEngineStarted(),
-        () => this.stateManager.isTransitioning(),
-        () => this.stateManager.getCurrentData()
-      );
+    // Set up timers for every initially active stage
+    for (const stage of this.stageHierarchy.getActiveStages(initialConfiguration)) {
+      const stageConfig = this.stageMap.get(stage);
+      if (stageConfig) {
+        this._setupStageTimers(stage, stageConfig);
+      }
     }
   }
 
@@ -165,7 +216,7 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    */
   private buildStageMap(): void {
     this.stageMap.clear();
-    for (const stage of this.config.stages) {
+    for (const stage of flattenStages(this.config.stages)) {
       this.stageMap.set(stage.name, stage);
     }
   }
@@ -185,9 +236,69 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     return this.stateManager.getCurrentStage();
   }
 
+  /**
+   * Gets the full path of active stages
+   *
+   * With nested stages the current stage is always a leaf; this returns it
+   * together with every enclosing compound stage, outermost first.
+   *
+   * @returns Active stage names from the top-level stage down to the current leaf
+   *
+   * @example
+   * ```typescript
+   * engine.getCurrentStage();     // 'cardEntry'
+   * engine.getCurrentStagePath(); // ['payment', 'cardEntry']
+   * ```
+   */
+  getCurrentStagePath(): TStage[] {
+    return this.stageHierarchy.getPath(this.stateManager.getCurrentStage());
+  }
+
+  /**
+   * Gets the current stage of each parallel region
+   *
+   * While the current stage is a parallel stage, every region (direct child of
+   * that stage) has its own active leaf. Outside parallel stages this is empty.
+   *
+   * @returns Active leaf stage keyed by region name
+   *
+   * @example
+   * ```typescript
+   * engine.getCurrentStage();  // 'editing'
+   * engine.getRegionStages();  // { upload: 'uploading', form: 'details' }
+   * ```
+   */
+  getRegionStages(): RegionStages<TStage> {
+    return this.stateManager.getRegionStages() || {};
+  }
+
+  /**
+   * Gets the current stage together with its data
+   *
+   * With a stage data map, checking `stage` narrows `data` to that stage's type.
+   *
+   * @example
+   * ```typescript
+   * const state = engine.getCurrentState();
+   * if (state.stage === 'success') {
+   *   console.log('Receipt:', state.data?.receiptId);
+   * }
+   * ```
+   */
+  getCurrentState(): StageState<TStage, TDataMap> {
+    return {
+      stage: this.stateManager.getCurrentStage(),
+      data: this.stateManager.getCurrentData()
+    } as StageState<TStage, TDataMap>;
+  }
+
   /**
    * Gets the current stage data
    *
+   * When a stage is given, the data is only returned while that stage is the
+   * current stage, typed as that stage's data.
+   *
+   * @param stage - Optional stage the data must belong to
    * @returns The data associated with the current stage, or undefined if no data
    *
    * @example
@@ -196,9 +307,16 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * if (data) {
    *   console.log('Current stage data:', data);
    * }
+   *
+   * engine.getCurrentData('success')?.receiptId;
    * ```
    */
-  getCurrentData(): TData | undefined {
+  getCurrentData(): TDataMap[TStage] | undefined;
+  getCurrentData<TCurrent extends TStage>(stage: TCurrent): TDataMap[TCurrent] | undefined;
+  getCurrentData(stage?: TStage): TData | undefined {
+    if (stage !== undefined && stage !== this.stateManager.getCurrentStage()) {
+      return undefined;
+    }
     return this.stateManager.getCurrentData();
   }
 
@@ -221,14 +339,23 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
   /**
    * Sends an event to trigger a stage transition
    *
-   * Events are matched against transition configurations in the current stage.
-   * If a matching transition is found and its conditions are met, the stage
-   * will transition to the target stage.
+   * Events are matched against transition configurations in the current stage
+   * and its ancestors. Every matching transition is evaluated in declaration
+   * order and the first one whose condition passes is taken.
    *
    * @param event - The event name to send
-   * @param data - Optional data to associate with the transition
+   * @param data - Data to associate with the transition; required when the event map declares
+   *               a payload that does not include `undefined`
+   * @returns The selected transition and the outcome of every candidate
+   *
+   * While a transition is in progress the event is handled according to the
+   * `eventQueue` policy; with `'queue'` the promise resolves once this event
+   * has been handled.
    *
    * @throws {TransitionError} When the engine is not started or a transition is in progress
+   *                          (with the default `'throw'` queue policy). A transition rolled
+   *                          back by the `'rollback'` error policy uses the
+   *                          `TRANSITION_ROLLED_BACK` code with the failure in its context.
    *
    * @example
    * ```typescript
@@ -238,6 +365,12 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * // Send an event with data
    * await engine.send('login', { username: 'john', password: 'secret' });
    *
+   * // Inspect which guarded alternative was taken
+   * const result = await engine.send('submit');
+   * if (!result.transitioned) {
+   *   console.log(result.candidates.map(c => `${c.transition.target}: ${c.reason}`));
+   * }
+   *
    * // Handle errors
    * try {
    *   await engine.send('invalid-event');
@@ -248,8 +381,9 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * }
    * ```
    */
-  async send(event: string, data?: TData): Promise<void> {
-    return this.transitionManager.send(event, data, this.stateManager.getCurrentStage(), this.stateManager.isTransitioning(), this.lifecycleManager.isEngineStarted());
+  async send<TEvent extends EventName<TEvents>>(event: TEvent, ...[data]: EventArgs<TEvents, TEvent>): Promise<TransitionResult<TStage, TData>> {
+    const result = await this._dispatch(event, this._recorded({ type: 'send', event, data }, () => this._runSend(event, data)));
+    return result ?? { event, ...this._droppedResult() };
   }
 
   /**
@@ -257,13 +391,18 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    *
    * Unlike send(), this method directly transitions to the specified stage
    * without requiring an event. It will find a valid transition path to
-   * the target stage and execute it.
+   * the target stage and execute it. Under a `'declared-only'` or allowlist
+   * navigation policy, only declared transitions whose condition passes are taken.
    *
    * @param stage - The target stage to navigate to
    * @param data - Optional data to associate with the transition
+   * @returns The outcome of the navigation, without an event
    *
-   * @throws {TransitionError} When the engine is not started, a transition is in progress,
-   *                          or no valid transition path exists to the target stage
+   * @throws {TransitionError} When the engine is not started, a transition is in progress
+   *                          (with the default `'throw'` queue policy), or no valid
+   *                          transition path exists to the target stage. Navigation the
+   *                          policy forbids uses the `NAVIGATION_NOT_ALLOWED` code, and a
+   *                          rolled back transition the `TRANSITION_ROLLED_BACK` code.
    *
    * @example
    * ```typescript
@@ -281,87 +420,344 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * }
    * ```
    */
-  async goTo(stage: TStage, data?: TData): Promise<void> {
-    return this.transitionManager.goTo(stage, data, this.stateManager.getCurrentStage(), this.stateManager.isTransitioning(), this.lifecycleManager.isEngineStarted());
+  async goTo<TTarget extends TStage>(stage: TTarget, data?: TDataMap[TTarget]): Promise<TransitionResult<TStage, TData>> {
+    const result = await this._dispatch(`goTo(${stage})`, this._recorded({ type: 'goTo', stage, data }, () => this._runGoTo(stage, data)));
+    return result ?? this._droppedResult();
   }
 
   /**
-   * Pauses all timers for the current stage
+   * Navigates back to the previous history entry
+   *
+   * Restores the stage and the data it had when it was left. Stages with
+   * `backTarget: false` are skipped. Navigating back does not add a history
+   * entry; a new transition afterwards discards the entries ahead of it.
+   *
+   * @returns The outcome of the navigation, without an event
+   *
+   * @throws {TransitionError} When the engine is not started, a transition is in progress,
+   *                          or there is no entry to go back to
+   *
+   * @example
+   * ```typescript
+   * if (engine.canGoBack()) {
+   *   await engine.back();
+   * }
+   * ```
    */
-  pauseTimers(): void {
-    this.timerManager.pauseTimers(this.stateManager.getCurrentStage(), () => this.stateManager.getCurrentData());
+  async back(): Promise<TransitionResult<TStage, TData>> {
+    const result = await this._dispatch('back', this._recorded({ type: 'back' }, () => this._runHistoryNavigation(-1)));
+    return result ?? this._droppedResult();
   }
 
   /**
-   * Resumes all paused timers for the current stage
+   * Navigates forward to the history entry that back() left
+   *
+   * @throws {TransitionError} When the engine is not started, a transition is in progress,
+   *                          or there is no entry to go forward to
    */
-  resumeTimers(): void {
-    const currentStage = this.stateManager.getCurrentStage();
-    const stageConfig = this.stageMap.get(currentStage);
+  async forward(): Promise<TransitionResult<TStage, TData>> {
+    const result = await this._dispatch('forward', this._recorded({ type: 'forward' }, () => this._runHistoryNavigation(1)));
+    return result ?? this._droppedResult();
+  }
 
-    if (!stageConfig) {
-      return;
+  /**
+   * Checks whether there is a history entry to go back to
+   */
+  canGoBack(): boolean {
+    return this._findHistoryTarget(-1) !== -1;
+  }
+
+  /**
+   * Checks whether there is a history entry to go forward to
+   */
+  canGoForward(): boolean {
+    return this._findHistoryTarget(1) !== -1;
+  }
+
+  /**
+   * Checks whether sending an event now would take a transition
+   *
+   * Transitions are selected and their conditions evaluated as send() would,
+   * without side effects: no hooks, middleware, plugins or events run, and
+   * conditions get a context whose send and goTo reject. `data` is checked
+   * against the target stage like send() checks it. Returns false before the
+   * engine starts and once the flow is done.
+   *
+   * @throws {TransitionError} When a condition throws
+   *
+   * @example
+   * ```typescript
+   * submitButton.disabled = !(await engine.can('submit'));
+   * ```
+   */
+  async can<TEvent extends EventName<TEvents>>(event: TEvent, data?: TEvents[TEvent]): Promise<boolean> {
+    if (!this._isInspectable()) {
+      return false;
     }
+    return this.transitionManager.can(event, data, this.stateManager.getCurrentStage());
+  }
 
-    this.timerManager.resumeTimers(
-      currentStage,
-      stageConfig,
-      this._executeTransition.bind(this),
-      () => this.stateManager.getCurrentStage(),
-      () => this.lifecycleManager.isEngineStarted(),
-      () => this.stateManager.isTransitioning(),
-      () => this.stateManager.getCurrentData()
+  /**
+   * Lists the events handled by the active stages
+   *
+   * Each entry gives the stage the event would lead to, or is marked `blocked`
+   * when every matching transition's condition fails. Like can(), this has no
+   * side effects and returns an empty list before start and once done.
+   */
+  async getAvailableEvents(): Promise<AvailableEvent<TStage>[]> {
+    if (!this._isInspectable()) {
+      return [];
+    }
+    return this.transitionManager.getAvailableEvents(this.stateManager.getCurrentStage());
+  }
+
+  /**
+   * Lists the stages one declared transition away from the active stages
+   *
+   * Event, timed and eventless transitions are included; a stage is marked
+   * `blocked` when the condition of every transition leading there fails.
+   * Like can(), this has no side effects and returns an empty list before
+   * start and once done.
+   */
+  async getReachableStages(): Promise<ReachableStage<TStage>[]> {
+    if (!this._isInspectable()) {
+      return [];
+    }
+    return this.transitionManager.getReachableStages(this.stateManager.getCurrentStage());
+  }
+
+  /**
+   * Aborts the transition in progress
+   *
+   * The transition's signal (`context.signal` in hooks and conditions,
+   * `transitionContext.signal` in middleware and plugins) is aborted. Pending
+   * conditions and onEnter/onExit hooks are no longer awaited, even if they
+   * ignore the signal; middleware and plugin hooks are awaited before the
+   * transition stops. A transition that already changed the stage is rolled back to the
+   * previous stage, data, history and timers; hooks that already ran are not
+   * undone. The call that started the transition rejects with a TransitionError
+   * with the `TRANSITION_ABORTED` code.
+   *
+   * @param reason - Message of the TransitionError (defaults to "Transition aborted")
+   * @returns Whether a transition was in progress
+   *
+   * @example
+   * ```typescript
+   * cancelButton.onclick = () => engine.abortTransition('Cancelled by the user');
+   * ```
+   */
+  abortTransition(reason: string = 'Transition aborted'): boolean {
+    return this._abortTransition(
+      new TransitionError(reason, { stage: this.stateManager.getCurrentStage() }, 'TRANSITION_ABORTED')
     );
   }
 
   /**
-   * Resets all timers for the current stage to their original duration
+   * Finds the nearest history entry in a direction that may be navigated to
    */
-  resetTimers(): void {
+  private _findHistoryTarget(direction: -1 | 1): number {
+    const history = this.stateManager.getHistory();
+    for (let index = this.stateManager.getHistoryIndex() + direction; index >= 0 && index < history.length; index += direction) {
+      // Stages removed from the configuration are skipped like those with backTarget: false
+      const stage = this.stageMap.get(history[index].stage);
+      if (stage !== undefined && stage.backTarget !== false) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private _runHistoryNavigation(direction: -1 | 1): Promise<TransitionResult<TStage, TData>> {
+    return this.transitionManager.navigateHistory(this._findHistoryTarget(direction), this.stateManager.getCurrentStage(), this.stateManager.isTransitioning(), this.lifecycleManager.isEngineStarted());
+  }
+
+  /**
+   * Runs a dispatch now, or hands it to the event queue while the engine is busy
+   *
+   * When `awaitHandled` is false, a queued dispatch resolves as soon as it is
+   * queued. Stage contexts use this so that hooks awaiting `context.send()` do
+   * not wait on the transition they are running in.
+   */
+  private _dispatch<T>(label: string, run: () => Promise<T>, awaitHandled: boolean = true): Promise<T | undefined> {
+    if (this.eventQueue.getPolicy() !== 'throw' && this._isDispatchBusy()) {
+      // Hooks never preempt the transition they run in
+      if (this.eventQueue.getPolicy() === 'preempt' && awaitHandled) {
+        this.abortTransition(`Transition preempted by "${label}"`);
+      }
+
+      const handled = this.eventQueue.enqueue(label, run);
+      if (awaitHandled) {
+        return handled;
+      }
+      handled.catch(error => {
+        if (process.env.NODE_ENV !== 'test') {
+          console.error(`Queued event "${label}" failed:`, error);
+        }
+      });
+      return Promise.resolve(undefined);
+    }
+
+    return this._runDispatch(run);
+  }
+
+  /**
+   * Runs an internal dispatch now, or defers it until the engine is idle whatever the queue policy
+   */
+  private _dispatchInternal<T>(label: string, run: () => Promise<T>): Promise<T | undefined> {
+    if (this._isDispatchBusy()) {
+      return this.eventQueue.defer(label, run);
+    }
+
+    return this._runDispatch(run);
+  }
+
+  private _runDispatch<T>(run: () => Promise<T>): Promise<T> {
+    this.activeDispatches++;
+    return run().finally(() => {
+      this.activeDispatches--;
+      this._drainEventQueue();
+    });
+  }
+
+  private _runSend(event: string, data?: TData): Promise<TransitionResult<TStage, TData>> {
+    return this.transitionManager.send(event, data, this.stateManager.getCurrentStage(), this.stateManager.isTransitioning(), this.lifecycleManager.isEngineStarted());
+  }
+
+  private _runGoTo(stage: TStage, data?: TData): Promise<TransitionResult<TStage, TData>> {
+    return this.transitionManager.goTo(stage, data, this.stateManager.getCurrentStage(), this.stateManager.isTransitioning(), this.lifecycleManager.isEngineStarted());
+  }
+
+  /**
+   * Result for a call dropped, replaced or discarded by the event queue
+   */
+  private _droppedResult(): TransitionResult<TStage, TData> {
     const currentStage = this.stateManager.getCurrentStage();
-    const stageConfig = this.stageMap.get(currentStage);
+    return { from: currentStage, to: currentStage, transitioned: false, candidates: [] };
+  }
+
+  private _isInspectable(): boolean {
+    return this.lifecycleManager.isEngineStarted() && !this.stateManager.isDone();
+  }
+
+  private _isDispatchBusy(): boolean {
+    return this.stateManager.isTransitioning() || this.activeDispatches > 0 || this.eventQueue.isBusy();
+  }
 
-    if (!stageConfig) {
+  /**
+   * Processes queued events once no dispatch or transition is running
+   */
+  private _drainEventQueue(): void {
+    if (this.eventQueue.size() === 0) {
       return;
     }
+    void this.eventQueue.drain(() => this.stateManager.isTransitioning() || this.activeDispatches > 0);
+  }
 
-    this.timerManager.resetTimers(
-      currentStage,
-      stageConfig,
-      this._executeTransition.bind(this),
-      () => this.stateManager.getCurrentStage(),
-      () => this.lifecycleManager.isEngineStarted(),
-      () => this.stateManager.isTransitioning(),
-      () => this.stateManager.getCurrentData()
-    );
+  /**
+   * Pauses all timers for the active stages (including enclosing stages and regions)
+   */
+  pauseTimers(): void {
+    for (const stage of this._getActiveStages()) {
+      this.timerManager.pauseTimers(stage, () => this.stateManager.getCurrentData());
+    }
+  }
+
+  /**
+   * Resumes all paused timers for the active stages (including enclosing stages and regions)
+   */
+  resumeTimers(): void {
+    for (const stage of this._getActiveStages()) {
+      const stageConfig = this.stageMap.get(stage);
+
+      if (!stageConfig) {
+        continue;
+      }
+
+      this.timerManager.resumeTimers(
+        stage,
+        stageConfig,
+        this._fireTimer.bind(this),
+        (activeStage: TStage) => this._isStageActive(activeStage),
+        () => this.lifecycleManager.isEngineStarted(),
+        () => this.stateManager.isTransitioning(),
+        () => this.stateManager.getCurrentData()
+      );
+    }
+  }
+
+  /**
+   * Resets all timers for the active stages (including enclosing stages and regions) to their original duration
+   */
+  resetTimers(): void {
+    for (const stage of this._getActiveStages()) {
+      const stageConfig = this.stageMap.get(stage);
+
+      if (!stageConfig) {
+        continue;
+      }
+
+      this.timerManager.resetTimers(
+        stage,
+        stageConfig,
+        this._fireTimer.bind(this),
+        (activeStage: TStage) => this._isStageActive(activeStage),
+        () => this.lifecycleManager.isEngineStarted(),
+        () => this.stateManager.isTransitioning(),
+        () => this.stateManager.getCurrentData()
+      );
+    }
   }
 
   /**
-   * Gets the remaining time for timers in the current stage
+   * Gets the remaining time until the next timer fires for the current stage
    */
   getTimerRemainingTime(): number {
-    return this.timerManager.getTimerRemainingTime(this.stateManager.getCurrentStage());
+    let minRemaining = Infinity;
+    for (const stage of this._getActiveStages()) {
+      const remaining = this.timerManager.getTimerRemainingTime(stage);
+      if (remaining > 0) {
+        minRemaining = Math.min(minRemaining, remaining);
+      }
+    }
+    return minRemaining === Infinity ? 0 : minRemaining;
   }
 
   /**
    * Checks if timers are paused for the current stage
    */
   areTimersPaused(): boolean {
-    return this.timerManager.areTimersPaused(this.stateManager.getCurrentStage());
+    return this._getActiveStages().some(stage => this.timerManager.areTimersPaused(stage));
   }
 
   /**
-   * Notifies all subscribers of stage changes
+   * Notifies all subscribers of stage changes, with the cause for change listeners
    */
-  private _notifySubscribers(stage: TStage, data?: TData): void {
-    this.stateManager.notifySubscribers(stage, data);
+  private _notifySubscribers(
+    stage: TStage,
+    data: TData | undefined,
+    cause: Omit<StageChange<TStage, TData>, 'to' | 'data' | 'regions' | 'timestamp'>
+  ): void {
+    const regions = this.stateManager.getRegionStages();
+    const change: StageChange<TStage, TData> = {
+      ...cause,
+      to: stage,
+      data,
+      ...(regions ? { regions } : {}),
+      timestamp: this.clock.now()
+    };
+    this.stateManager.notifySubscribers(stage, data, change);
+  }
+
+  _nextTransitionId(): number {
+    return ++this.transitionCount;
   }
 
   /**
    * Subscribes to stage changes
    *
    * Registers a callback function that will be called whenever the stage changes.
-   * The callback receives the new stage name and associated data.
+   * The callback receives the new stage name and associated data. While a parallel
+   * stage is active, it also receives the current stage of every region.
    *
    * @param callback - Function to call when stage changes
    * @returns Unsubscribe function to remove the subscription
@@ -389,10 +785,149 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * const unsubscribe3 = engine.subscribe(sendAnalytics);
    * ```
    */
-  subscribe(callback: (stage: TStage, data?: TData) => void): () => void {
+  subscribe(callback: (stage: TStage, data?: TData, regions?: RegionStages<TStage>) => void): () => void {
     return this.stateManager.subscribe(callback);
   }
 
+  /**
+   * Subscribes to state changes with a record of what caused them
+   *
+   * Listeners are called for the same changes as subscribe() callbacks, after
+   * them. The record tells whether the change came from `start()`, `reset()`,
+   * a transition, history navigation, a stage data update or a restored
+   * snapshot, and carries the previous stage and data, the triggering event
+   * and, for transitions, a sequence number.
+   *
+   * @param listener - Function called with each change record
+   * @returns Unsubscribe function to remove the subscription
+   *
+   * @example
+   * ```typescript
+   * engine.subscribeToChanges(change => {
+   *   if (change.kind === 'transition') {
+   *     analytics.track('stage_change', { from: change.from, to: change.to, event: change.event });
+   *   }
+   * });
+   * ```
+   */
+  subscribeToChanges(listener: (change: StageChange<TStage, TData>) => void): () => void {
+    return this.stateManager.subscribeToChanges(listener);
+  }
+
+  /**
+   * Listens to an engine lifecycle event
+   *
+   * Events:
+   * - `start`, `stop`, `reset`: the engine started, stopped or was reset
+   *   (resetting a started engine also emits `stop` and `start`)
+   * - `transitionRejected`: matching transitions were found but every condition returned false
+   * - `eventIgnored`: an event matched no transition of the active stages
+   * - `hookError`: a stage's onEnter or onExit hook threw
+   *
+   * @param name - Name of the event
+   * @param listener - Function called with the event payload
+   * @returns Function removing the listener
+   *
+   * @example
+   * ```typescript
+   * engine.on('eventIgnored', ({ event, stage }) => {
+   *   console.warn(`Event "${event}" has no transition in stage "${stage}"`);
+   * });
+   * engine.on('hookError', ({ stage, hook, error }) => reportError(error, { stage, hook }));
+   * ```
+   */
+  on<TName extends StageFlowLifecycleEventName>(
+    name: TName,
+    listener: (payload: StageFlowLifecycleEvents<TStage, TData>[TName]) => void
+  ): () => void {
+    return this.lifecycleEvents.on(name, listener);
+  }
+
+  _emit<TName extends StageFlowLifecycleEventName>(
+    name: TName,
+    payload: StageFlowLifecycleEvents<TStage, TData>[TName]
+  ): void {
+    this.lifecycleEvents.emit(name, payload);
+  }
+
+  /**
+   * Subscribes to a slice of the current stage and data
+   *
+   * The selector runs on every state change, but the listener is called only
+   * when its result is not equal to the previous one. Selectors that build a
+   * new object on each call should pass `shallowEqual` or a similar function.
+   *
+   * @param selector - Function picking the slice from the current state
+   * @param listener - Function called with the new and the previous slice
+   * @param equalityFn - Function comparing slices (defaults to `Object.is`)
+   * @returns Unsubscribe function to remove the subscription
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = engine.select(
+   *   state => state.data?.email,
+   *   email => validateEmail(email)
+   * );
+   * ```
+   */
+  select<TSelected>(
+    selector: (state: StageState<TStage, TDataMap>) => TSelected,
+    listener: (selected: TSelected, previous: TSelected) => void,
+    equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+  ): () => void {
+    return this.stateManager.select(
+      state => selector(state as StageState<TStage, TDataMap>),
+      listener,
+      equalityFn
+    );
+  }
+
+  /**
+   * Checks whether the flow has reached a final stage
+   *
+   * A completed flow rejects events and navigation until it is reset.
+   */
+  isDone(): boolean {
+    return this.stateManager.isDone();
+  }
+
+  /**
+   * Waits for the flow to reach a final stage
+   *
+   * Resolves with the flow's output: the result of the final stage's `output`
+   * function, or its data when none is configured. Resolves immediately if the
+   * flow is already done.
+   *
+   * @example
+   * ```typescript
+   * const order = await engine.whenDone<{ orderId: string }>();
+   * ```
+   */
+  whenDone<TOutput = unknown>(): Promise<TOutput> {
+    if (this.stateManager.isDone()) {
+      return Promise.resolve(this.stateManager.getOutput() as TOutput);
+    }
+
+    return new Promise<TOutput>(resolve => {
+      const unsubscribe = this.stateManager.subscribeToDone(output => {
+        unsubscribe();
+        resolve(output as TOutput);
+      });
+    });
+  }
+
+  /**
+   * Subscribes to flow completion
+   *
+   * The callback receives the flow's output each time a final stage is entered.
+   *
+   * @param callback - Function to call when the flow is done
+   * @returns Unsubscribe function to remove the subscription
+   */
+  subscribeToDone(callback: (output: unknown) => void): () => void {
+    return this.stateManager.subscribeToDone(callback);
+  }
+
   /**
    * Installs a plugin into the stage flow engine
    */
@@ -447,50 +982,100 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * updating form data, user input, or other state that doesn't require a
    * stage change.
    *
-   * @param data - The new data to set for the current stage
+   * Given a function, the new data is computed from the current data at the
+   * time of the call, so that concurrent updates do not overwrite each other.
+   * Subscribers are not notified when the data is unchanged (plain objects are
+   * compared key by key).
+   *
+   * @param data - The new data to set for the current stage, or an updater
+   *               receiving the current data
    *
    * @throws {TransitionError} When the engine is not started or a transition is in progress
    *
    * @example
    * ```typescript
-   * // Update form data without changing stages
-   * engine.setStageData({
-   *   ...engine.getCurrentData(),
-   *   name: 'John Doe',
-   *   email: 'john@example.com'
-   * });
+   * // Replace the stage data
+   * engine.setStageData({ name: 'John Doe', email: 'john@example.com' });
    *
-   * // Update validation errors
-   * engine.setStageData({
-   *   ...engine.getCurrentData(),
+   * // Update validation errors based on the current data
+   * engine.setStageData(previous => ({
+   *   ...previous,
    *   errors: { email: 'Invalid email format' }
-   * });
+   * }));
    * ```
    */
-  setStageData(data: TData): void {
-    if (!this.lifecycleManager.isEngineStarted()) {
-      throw new TransitionError("Engine must be started before updating stage data");
-    }
+  setStageData(data: TData | StageDataUpdater<TData>): void {
+    this._applyStageData(current =>
+      typeof data === 'function' ? (data as StageDataUpdater<TData>)(current) : data
+    );
+  }
 
-    if (this.stateManager.isTransitioning()) {
+  /**
+   * Shallowly merges fields into the current stage data
+   *
+   * @param partial - Fields to overwrite in the current data
+   *
+   * @throws {TransitionError} When the engine is not started or a transition is in progress
+   *
+   * @example
+   * ```typescript
+   * engine.patchStageData({ email: 'john@example.com' });
+   * ```
+   */
+  patchStageData(partial: Partial<TData>): void {
+    this._applyStageData(current => ({ ...current, ...partial }) as TData);
+  }
+
+  private _applyStageData(resolve: (current: TData | undefined) => TData): void {
+    let data: TData | undefined;
+    try {
+      const current = this.stateManager.getCurrentData();
+      data = this._resolveStageData(resolve);
+      if (!this.stateManager.isCurrentData(data)) {
+        // Update the data (history navigation restores it)
+        this.stateManager.updateStageData(data);
+        this.stateManager.updateHistoryData(data);
+
+        // Notify subscribers of the data change
+        const stage = this.stateManager.getCurrentStage();
+        this._notifySubscribers(stage, data, { kind: 'data', from: stage, previousData: current });
+      }
+    } catch (error) {
+      this._record({ type: 'setStageData', data: data as TData }, error);
+      throw error;
+    }
+    this._record({ type: 'setStageData', data });
+  }
+
+  private _resolveStageData(resolve: (current: TData | undefined) => TData): TData {
+    if (!this.lifecycleManager.isEngineStarted()) {
+      throw new TransitionError("Engine must be started before updating stage data");
+    }
+
+    if (this.stateManager.isTransitioning()) {
       throw new TransitionError("Cannot update stage data while transition is in progress");
     }
 
+    const data = resolve(this.stateManager.getCurrentData());
+
     // Validate data against current stage
+    this._validateStageData(this.stateManager.getCurrentStage(), data);
+
+    return data;
+  }
+
+  /**
+   * Runtime validation for data entering a stage, reported as a TransitionError
+   */
+  private _validateStageData(stage: TStage, data: TData | undefined): void {
     try {
-      this.runtimeTypeChecker.validateStageData(this.stateManager.getCurrentStage(), data);
+      this.runtimeTypeChecker.validateStageData(stage, data);
     } catch (error) {
       if (error instanceof ConfigurationError) {
         throw new TransitionError(error.message, error.context);
       }
       throw error;
     }
-
-    // Update the data
-    this.stateManager.updateStageData(data);
-
-    // Notify subscribers of the data change
-    this._notifySubscribers(this.stateManager.getCurrentStage(), data);
   }
 
   /**
@@ -514,6 +1099,327 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     }
   }
 
+  /**
+   * Adds a stage to the configuration
+   *
+   * The changed configuration is validated before anything is applied, so an
+   * invalid stage leaves the engine unchanged. The new stage can be reached once
+   * a transition leads to it (see addTransition()).
+   *
+   * @param stage - Stage to add
+   * @param parent - Compound stage to add it to as a child (top level if omitted)
+   * @throws {ConfigurationError} When the changed configuration is invalid
+   * @throws {StageFlowError} When the parent stage does not exist
+   *
+   * @example
+   * ```typescript
+   * engine.addStage({ name: 'referral', transitions: [{ target: 'summary', event: 'next' }] });
+   * engine.addTransition('profile', { target: 'referral', event: 'refer' });
+   * ```
+   */
+  addStage(stage: StageConfig<TStage, TData>, parent?: TStage): void {
+    this.configManager.addStage(stage, parent);
+  }
+
+  /**
+   * Changes the configuration of a stage
+   *
+   * The given properties replace the stage's own; its name cannot change. When
+   * the stage is active, timers whose transition is unchanged keep running and a
+   * new timed transition starts counting now; its hooks apply the next time it is
+   * entered or left.
+   *
+   * @throws {ConfigurationError} When the changed configuration is invalid
+   * @throws {StageFlowError} When the stage does not exist
+   *
+   * @example
+   * ```typescript
+   * engine.updateStage('payment', { effect: 'slideUp' });
+   * ```
+   */
+  updateStage(stage: TStage, changes: Partial<Omit<StageConfig<TStage, TData>, 'name'>>): void {
+    this.configManager.updateStage(stage, changes);
+  }
+
+  /**
+   * Adds a transition to a stage
+   *
+   * @throws {ConfigurationError} When the changed configuration is invalid
+   * @throws {StageFlowError} When the stage does not exist
+   */
+  addTransition(stage: TStage, transition: Transition<TStage, TData>): void {
+    this.configManager.addTransition(stage, transition);
+  }
+
+  /**
+   * Removes a stage, its child stages and every transition leading to them
+   *
+   * An active stage is only removed when `migrateTo` is given: the engine then
+   * transitions to that stage first, running the usual hooks. The initial stage
+   * cannot be removed.
+   *
+   * @throws {StageFlowError} When the stage does not exist, is the initial
+   *                          stage, or is active without a migration target
+   * @throws {ConfigurationError} When the changed configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await engine.removeStage('referral', { migrateTo: 'summary' });
+   * ```
+   */
+  async removeStage(stage: TStage, options: RemoveStageOptions<TStage, TData> = {}): Promise<void> {
+    await this.configManager.removeStage(stage, options);
+  }
+
+  /**
+   * Replaces the whole configuration while keeping the runtime state
+   *
+   * Stages, transitions, effects and the other configuration take effect at once;
+   * the current stage, data, history and plugin state are kept, and installed
+   * plugins and middleware stay as they are. `eventQueue`, `clock` and `eventLog`
+   * are construction-only: the engine keeps the settings it was created with and
+   * ignores those of the new configuration. Active stages and history entries
+   * missing from the new configuration are mapped with `mapStage`, falling back
+   * to the new initial stage. No hooks run: timers of active stages are re-armed
+   * against the new transitions (unchanged timed transitions keep their time
+   * left), and services are started or stopped for stages that became active or
+   * inactive. Subscribers are notified with the `config` change kind.
+   *
+   * @param config - The new configuration
+   * @param options - How to map stages that no longer exist
+   * @throws {ConfigurationError} When the new configuration is invalid
+   * @throws {StageFlowError} When mapStage returns a stage that does not exist
+   * @throws {TransitionError} When a transition is in progress
+   *
+   * @example
+   * ```typescript
+   * engine.replaceConfig(nextConfig, {
+   *   mapStage: stage => (stage === 'legacyReview' ? 'review' : undefined)
+   * });
+   * ```
+   */
+  replaceConfig(config: StageFlowConfig<TStage, TData>, options: ReplaceConfigOptions<TStage> = {}): void {
+    this.configManager.replace(config, options);
+  }
+
+  /**
+   * Captures the complete runtime state in a versioned, JSON-safe snapshot
+   *
+   * The snapshot holds the current stage, region stages, data, history, plugin
+   * state, completion state and the time left on every timer.
+   *
+   * @throws {TransitionError} When a transition is in progress
+   *
+   * @example
+   * ```typescript
+   * localStorage.setItem('checkout', JSON.stringify(engine.getSnapshot()));
+   * ```
+   */
+  getSnapshot(): StageFlowSnapshot<TStage, TData> {
+    return this.snapshotManager.capture();
+  }
+
+  /**
+   * Replaces the runtime state with a snapshot taken by getSnapshot()
+   *
+   * No stage hooks run. On a started engine, timers resume with the time they
+   * had left and the services of the active stages are invoked again; on an
+   * engine that is not started, the timers resume when it starts.
+   *
+   * @param snapshot - Snapshot to restore
+   * @throws {StageFlowError} When the snapshot version is not supported or it
+   *                          refers to a stage that does not exist
+   * @throws {TransitionError} When a transition is in progress
+   *
+   * @example
+   * ```typescript
+   * engine.restore(JSON.parse(localStorage.getItem('checkout')!));
+   * ```
+   */
+  restore(snapshot: StageFlowSnapshot<TStage, TData>): void {
+    this.snapshotManager.restore(snapshot);
+  }
+
+  /**
+   * Creates an engine whose state is restored from a snapshot
+   *
+   * The engine is not started; `start()` runs the entry hooks of the restored
+   * stages and resumes the snapshot's timers.
+   *
+   * @example
+   * ```typescript
+   * const engine = StageFlowEngine.fromSnapshot(config, snapshot);
+   * await engine.start();
+   * ```
+   */
+  static fromSnapshot<
+    TStage extends string,
+    TData = unknown,
+    TEvents extends EventMap<TData> = EventMap<TData>,
+    TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+  >(
+    config: StageFlowConfig<TStage, TData, TEvents>,
+    snapshot: StageFlowSnapshot<TStage, TData>,
+    validationOptions?: ValidationOptions
+  ): StageFlowEngine<TStage, TData, TEvents, TDataMap> {
+    const engine = new StageFlowEngine<TStage, TData, TEvents, TDataMap>(config, validationOptions);
+    engine.restore(snapshot);
+    return engine;
+  }
+
+  /**
+   * Gets the inputs recorded since the engine was created, reset or restored
+   *
+   * Returns an empty list unless the engine was configured with `eventLog: true`.
+   *
+   * @example
+   * ```typescript
+   * const engine = new StageFlowEngine({ ...config, eventLog: true });
+   * // ...
+   * attachToTicket(JSON.stringify(engine.getEventLog()));
+   * ```
+   */
+  getEventLog(): EventLogEntry<TStage, TData>[] {
+    return this.eventLog ? this.eventLog.getEntries() : [];
+  }
+
+  /**
+   * Rebuilds the state recorded in an event log in a fresh engine
+   *
+   * The fresh engine uses this engine's configuration. Real timers and invoked
+   * services are disabled in it: timer firings and service results are taken
+   * from the log instead. After each entry the result is compared with the
+   * recorded one, and every difference is reported as a mismatch.
+   *
+   * @param log - Entries returned by getEventLog()
+   * @param options - Replay options; the default clock returns the recorded
+   *                  time of the entry being replayed
+   * @returns The replaying engine, started, and the mismatches found
+   *
+   * @example
+   * ```typescript
+   * const { engine: replayed, mismatches } = await engine.replay(log);
+   * if (mismatches.length > 0) {
+   *   console.warn(`Replay diverged at entry ${mismatches[0].seq}`);
+   * }
+   * ```
+   */
+  async replay(
+    log: EventLogEntry<TStage, TData>[],
+    options: ReplayOptions = {}
+  ): Promise<ReplayResult<TStage, TData, StageFlowEngine<TStage, TData, TEvents, TDataMap>>> {
+    let time = log.length > 0 ? log[0].time : 0;
+    const clock = options.clock ?? { now: () => time };
+    const config = { ...this.config, eventLog: false, clock } as StageFlowConfig<TStage, TData, TEvents>;
+
+    const engine = new StageFlowEngine<TStage, TData, TEvents, TDataMap>(config, this.validationOptions);
+    engine.timerManager.disable();
+    engine.liveServices = false;
+    await engine.start();
+
+    const mismatches: ReplayMismatch<TStage, TData>[] = [];
+    for (const entry of log) {
+      time = entry.time;
+
+      let error: string | undefined;
+      try {
+        await engine._replayEntry(entry);
+      } catch (replayError) {
+        error = this._errorMessage(replayError);
+      }
+
+      const actual: EventLogResult<TStage, TData> = {
+        stage: engine.stateManager.getCurrentStage(),
+        data: engine.stateManager.getCurrentData(),
+        error
+      };
+      if (!isSameResult(entry.result, actual)) {
+        mismatches.push({ seq: entry.seq, entry, actual: JSON.parse(JSON.stringify(actual)) });
+      }
+
+      await engine._waitForIdle();
+    }
+
+    return { engine, mismatches };
+  }
+
+  /**
+   * Creates an isolated copy of the engine for previewing what-if sequences
+   *
+   * The fork has this engine's configuration, and a copy of its state, history,
+   * plugin state and timers; it is started if this engine is, without running
+   * entry hooks again. Nothing the fork does touches this engine. Its timers
+   * are virtual: they only fire when advanceTime() moves its clock. Invoked
+   * services do not run, and neither the event log nor persistence is kept.
+   * Plugins and middleware are stubbed unless a factory creates a new instance
+   * for the fork, and stage hooks can be left out.
+   *
+   * @param options - Plugin and middleware factories and whether to stub stage hooks
+   * @returns The forked engine
+   * @throws {TransitionError} When a transition is in progress
+   * @throws {StageFlowError} When a factory returns this engine's plugin or middleware instance
+   *
+   * @example
+   * ```typescript
+   * const preview = await engine.fork({ stubHooks: true });
+   * await preview.send('submit');
+   * await preview.advanceTime(30000);
+   * console.log(preview.getCurrentStage());
+   * ```
+   */
+  async fork(options: ForkOptions<TStage, TData> = {}): Promise<StageFlowEngine<TStage, TData, TEvents, TDataMap>> {
+    if (this.stateManager.isTransitioning()) {
+      throw new TransitionError('Cannot fork the engine while a transition is in progress');
+    }
+
+    // The fork never runs this engine's plugin or middleware instances, whose side effects are not isolated
+    const livePlugins = this.pluginManager.getInstalledPlugins()
+      .map(name => this.pluginManager.getPlugin(name) as Plugin<TStage, TData>);
+    const plugins = livePlugins.map(plugin =>
+      forkInstance('plugin', plugin, livePlugins, options.plugins?.[plugin.name], stubPlugin)
+    );
+    const middleware = this.state.middleware.map(item =>
+      forkInstance('middleware', item, this.state.middleware, options.middleware?.[item.name], stubMiddleware)
+    );
+
+    const timeline = new VirtualTimeline(this.clock.now());
+    const config = {
+      ...this.config,
+      stages: options.stubHooks ? withoutStageHooks(this.config.stages) : this.config.stages,
+      plugins,
+      middleware,
+      eventLog: false,
+      persistence: undefined,
+      clock: timeline
+    } as StageFlowConfig<TStage, TData, TEvents>;
+
+    const engine = new StageFlowEngine<TStage, TData, TEvents, TDataMap>(config, this.validationOptions);
+    engine.timerManager.setScheduler(timeline);
+    engine.virtualTime = timeline;
+    engine.liveServices = false;
+    engine.restore(this.getSnapshot());
+    if (this.lifecycleManager.isEngineStarted()) {
+      engine.lifecycleManager.setEngine(engine);
+      await engine.lifecycleManager.start({ kind: 'start' }, false);
+    }
+    return engine;
+  }
+
+  /**
+   * Advances the virtual time of a forked engine, firing due timers in order
+   *
+   * Resolves once the transitions the timers started have finished.
+   *
+   * @throws {StageFlowError} When the engine was not created with fork()
+   */
+  async advanceTime(ms: number): Promise<void> {
+    if (!this.virtualTime) {
+      throw new StageFlowError('Only engines created with fork() have virtual time', 'VIRTUAL_TIME_UNAVAILABLE');
+    }
+    await this.virtualTime.advance(ms);
+    await this._waitForIdle();
+  }
+
   /**
    * Starts the stage flow engine
    */
@@ -552,6 +1458,156 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
   // Internal methods for TransitionManager to access engine state
   _setTransitioning(isTransitioning: boolean): void {
     this.stateManager.setTransitioning(isTransitioning);
+    if (isTransitioning) {
+      // Steps of the same transition (such as an event's conditions and its execution) share a signal
+      this.transitionController ??= new AbortController();
+    } else {
+      this.transitionController = null;
+      // Transitions started by timers finish outside any dispatch
+      void Promise.resolve().then(() => this._drainEventQueue());
+    }
+  }
+
+  async _contextSend(event: string, data?: TData): Promise<void> {
+    await this._dispatch(event, () => this._runSend(event, data), false);
+  }
+
+  async _contextGoTo(stage: TStage, data?: TData): Promise<void> {
+    await this._dispatch(`goTo(${stage})`, () => this._runGoTo(stage, data), false);
+  }
+
+  _getTransitionSignal(): AbortSignal | undefined {
+    return this.transitionController?.signal;
+  }
+
+  _abortTransition(reason: TransitionError): boolean {
+    const controller = this.transitionController;
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    controller.abort(reason);
+    return true;
+  }
+
+  _clearEventQueue(): void {
+    this.eventQueue.clear();
+  }
+
+  /**
+   * Starts the invoked services of the given stages
+   */
+  _startInvokes(stages: TStage[]): void {
+    if (!this.liveServices) {
+      return;
+    }
+
+    for (const stage of stages) {
+      const invoke = this.stageMap.get(stage)?.invoke;
+      if (invoke) {
+        this.invokeManager.start(stage, invoke, this._createStageContext(), (outcome, signal) =>
+          this._handleInvokeOutcome(stage, outcome, signal)
+        );
+      }
+    }
+  }
+
+  _stopInvoke(stage: TStage): void {
+    this.invokeManager.stop(stage);
+  }
+
+  _stopAllInvokes(): void {
+    this.invokeManager.stopAll();
+  }
+
+  /**
+   * Takes the onDone or onError transition of a settled service
+   *
+   * The transition waits for any running transition to finish and is skipped
+   * if the stage was exited in the meantime.
+   */
+  private _handleInvokeOutcome(stage: TStage, outcome: InvokeOutcome<TData>, signal: AbortSignal): void {
+    const invoke = this.stageMap.get(stage)?.invoke;
+    const transition = outcome.status === 'done' ? invoke?.onDone : invoke?.onError;
+    if (!transition) {
+      if (outcome.status === 'error' && process.env.NODE_ENV !== 'test') {
+        console.error(`Invoked service of stage "${stage}" failed:`, outcome.error);
+      }
+      return;
+    }
+
+    const event = `${outcome.status}.invoke.${stage}`;
+    const data = outcome.status === 'done' && outcome.result !== undefined ? outcome.result : undefined;
+    const error = outcome.status === 'error' ? outcome.error : undefined;
+
+    this._dispatchInternal(event, async () => {
+      if (!signal.aborted) {
+        const input: EventLogInput<TStage, TData> = {
+          type: 'invoke',
+          stage,
+          status: outcome.status,
+          data,
+          error: error !== undefined ? this._errorMessage(error) : undefined
+        };
+        await this._recorded(input, () => {
+          // Service results enter the target stage like data passed to send()
+          if (data !== undefined) {
+            this._validateStageData(transition.target, data);
+          }
+          return this.transitionManager.executeTransition(transition, data, event, stage, { error });
+        })();
+      }
+    }).catch(transitionError => {
+      if (process.env.NODE_ENV !== 'test') {
+        console.error(`Transition "${event}" failed:`, transitionError);
+      }
+    });
+  }
+
+  _isStageActive(stage: TStage): boolean {
+    return this.stageHierarchy.isActive(this._getActiveConfiguration(), stage);
+  }
+
+  _getActiveConfiguration(): ActiveConfiguration<TStage> {
+    return {
+      current: this.stateManager.getCurrentStage(),
+      regions: this.stateManager.getRegionStages()
+    };
+  }
+
+  _getActiveStages(): TStage[] {
+    return this.stageHierarchy.getActiveStages(this._getActiveConfiguration());
+  }
+
+  /**
+   * Completes the flow if the current stage is final: stops every timer,
+   * computes the output and notifies done subscribers and plugins
+   */
+  async _completeIfFinal(): Promise<void> {
+    const stage = this.stateManager.getCurrentStage();
+    const stageConfig = this.stageMap.get(stage);
+    if (stageConfig?.type !== 'final' || this.stateManager.isDone()) {
+      return;
+    }
+
+    this.timerManager.clearAllTimers();
+    this.invokeManager.stopAll();
+
+    const data = this.stateManager.getCurrentData();
+    let output: unknown = data;
+    if (stageConfig.output) {
+      try {
+        output = stageConfig.output(data);
+      } catch (error) {
+        throw new TransitionError(
+          `Stage "${stage}": output failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { stage, data, error }
+        );
+      }
+    }
+
+    this.stateManager.setDone(output);
+    await this.pluginManager.executePluginHooks('onDone', this._createStageContext(), output);
   }
 
   _clearStageTimers(stage: TStage): void {
@@ -562,6 +1618,11 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     this.stateManager.updateCurrentStage(stage);
   }
 
+  _updateActiveConfiguration(configuration: ActiveConfiguration<TStage>): void {
+    this.stateManager.updateCurrentStage(configuration.current);
+    this.stateManager.updateRegionStages(configuration.regions);
+  }
+
   _updateStageData(data: TData): void {
     this.stateManager.updateStageData(data);
   }
@@ -578,14 +1639,25 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     this.timerManager.setupStageTimers(
       stage,
       stageConfig,
-      this._executeTransition.bind(this),
-      () => this.stateManager.getCurrentStage(),
+      this._fireTimer.bind(this),
+      (activeStage: TStage) => this._isStageActive(activeStage),
       () => this.lifecycleManager.isEngineStarted(),
       () => this.stateManager.isTransitioning(),
       () => this.stateManager.getCurrentData()
     );
   }
 
+  _restoreTimers(timers: TimerSnapshot<TStage>[]): void {
+    this.timerManager.restoreTimers(
+      timers,
+      (stage: TStage) => this.stageMap.get(stage),
+      this._fireTimer.bind(this),
+      (activeStage: TStage) => this._isStageActive(activeStage),
+      () => this.lifecycleManager.isEngineStarted(),
+      () => this.stateManager.isTransitioning()
+    );
+  }
+
   /**
    * Executes middleware pipeline for a transition
    * Used by TransitionManager via type assertion
@@ -595,11 +1667,125 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     return this.middlewareManager.executePipeline(transitionContext, transition);
   }
 
+  /**
+   * Wraps a dispatch so that the input is recorded in the event log once handled
+   */
+  private _recorded<T>(input: EventLogInput<TStage, TData>, run: () => Promise<T>): () => Promise<T> {
+    if (!this.eventLog) {
+      return run;
+    }
+
+    return async () => {
+      try {
+        const result = await run();
+        this._record(input);
+        return result;
+      } catch (error) {
+        this._record(input, error);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Records an input with the current state, unless the engine is not started
+   */
+  private _record(input: EventLogInput<TStage, TData>, error?: unknown): void {
+    if (!this.eventLog || !this.lifecycleManager.isEngineStarted()) {
+      return;
+    }
+
+    this.eventLog.record(input, {
+      stage: this.stateManager.getCurrentStage(),
+      data: this.stateManager.getCurrentData(),
+      error: error !== undefined ? this._errorMessage(error) : undefined
+    });
+  }
+
+  private _errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Takes a delayed transition when its timer fires
+   */
+  private _fireTimer(transition: Transition<TStage, TData>): Promise<void> {
+    const stage = this.stageHierarchy.getTransitionSource(transition) ?? this.stateManager.getCurrentStage();
+    const input: EventLogInput<TStage, TData> = { type: 'timer', stage, target: transition.target, after: transition.after ?? 0 };
+    return this._recorded(input, () => this._executeTransition(transition))();
+  }
+
+  /**
+   * Applies a recorded input, taking timer firings and service results from the log
+   */
+  private async _replayEntry(entry: EventLogEntry<TStage, TData>): Promise<void> {
+    switch (entry.type) {
+      case 'send':
+        await this._dispatch(entry.event, () => this._runSend(entry.event, entry.data));
+        return;
+      case 'goTo':
+        await this._dispatch(`goTo(${entry.stage})`, () => this._runGoTo(entry.stage, entry.data));
+        return;
+      case 'setStageData':
+        this.setStageData(entry.data);
+        return;
+      case 'back':
+        await this.back();
+        return;
+      case 'forward':
+        await this.forward();
+        return;
+      case 'timer': {
+        const transition = this.stageMap.get(entry.stage)?.transitions.find(
+          candidate => candidate.target === entry.target && candidate.after === entry.after
+        );
+        if (!transition) {
+          throw new TransitionError(`Stage "${entry.stage}" has no timer to "${entry.target}" after ${entry.after}ms`, {
+            stage: entry.stage,
+            target: entry.target
+          });
+        }
+        await this._runDispatch(() => this._executeTransition(transition));
+        return;
+      }
+      case 'invoke': {
+        const invoke = this.stageMap.get(entry.stage)?.invoke;
+        const transition = entry.status === 'done' ? invoke?.onDone : invoke?.onError;
+        if (!transition) {
+          throw new TransitionError(`Stage "${entry.stage}" has no ${entry.status} transition for its service`, {
+            stage: entry.stage
+          });
+        }
+        const event = `${entry.status}.invoke.${entry.stage}`;
+        const error = entry.error !== undefined ? new Error(entry.error) : undefined;
+        if (entry.data !== undefined) {
+          this._validateStageData(transition.target, entry.data);
+        }
+        await this._runDispatch(() => this.transitionManager.executeTransition(transition, entry.data, event, entry.stage, { error }));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Resolves once no transition is running and the event queue is empty
+   */
+  private async _waitForIdle(): Promise<void> {
+    while (this._isDispatchBusy() || this.eventQueue.size() > 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
   /**
    * Executes a stage transition (delegates to TransitionManager)
    */
   private async _executeTransition(transition: Transition<TStage, TData>, data?: TData, event?: string): Promise<void> {
-    return this.transitionManager.executeTransition(transition, data, event, this.state.current);
+    // Transitions declared inside a region start from that region's current stage
+    const source = this.stageHierarchy.getTransitionSource(transition);
+    const region = source !== undefined ? this.stageHierarchy.getRegion(source) : undefined;
+    const regionStage = region !== undefined ? this.stateManager.getRegionStages()?.[region] : undefined;
+
+    await this.transitionManager.executeTransition(transition, data, event, regionStage ?? this.stateManager.getCurrentStage());
   }
 
   /**
@@ -637,7 +1823,7 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     return this.timerManager.restoreTimerState(
       serializedState,
       this.stateManager.getCurrentStage(),
-      this._executeTransition.bind(this),
+      this._fireTimer.bind(this),
       (stage: TStage) => this.stageMap.get(stage),
       () => this.lifecycleManager.isEngineStarted(),
       () => this.stateManager.isTransitioning()
@@ -667,7 +1853,6 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
    * Creates a new stage context for the current stage
    * Used by TransitionManager via type assertion
    */
-  // @ts-expect-error - This method is used by TransitionManager but TypeScript doesn't detect it
   private _createStageContext(): import('./types/core').StageContext<TStage, TData> {
     const currentStage = this.stateManager.getCurrentStage();
     const currentData = this.stateManager.getCurrentData();
@@ -675,9 +1860,67 @@ export class StageFlowEngine<TStage extends string, TData = unknown> implements
     return {
       current: currentStage,
       data: currentData,
-      timestamp: Date.now(),
-      send: this.send.bind(this),
-      goTo: this.goTo.bind(this)
+      timestamp: this.clock.now(),
+      send: this._contextSend.bind(this),
+      goTo: this._contextGoTo.bind(this),
+      signal: this._getTransitionSignal()
     };
   }
 }
+
+/**
+ * Gets a forked engine's plugin or middleware: a new instance from its factory, or a stub
+ */
+function forkInstance<T extends { name: string }>(
+  kind: 'plugin' | 'middleware',
+  item: T,
+  live: T[],
+  create: (() => T) | undefined,
+  stub: (item: T) => T
+): T {
+  if (!create) {
+    return stub(item);
+  }
+
+  const instance = create();
+  if (live.includes(instance)) {
+    throw new StageFlowError(
+      `${kind === 'plugin' ? 'Plugin' : 'Middleware'} factory "${item.name}" must create a new instance for the fork`,
+      `FORK_${kind.toUpperCase()}_SHARED`,
+      { [kind]: item.name }
+    );
+  }
+  return instance;
+}
+
+/**
+ * Replaces a plugin by one with the same name, dependencies and a copy of its state that does nothing
+ */
+function stubPlugin<TStage extends string, TData>(plugin: Plugin<TStage, TData>): Plugin<TStage, TData> {
+  return {
+    name: plugin.name,
+    version: plugin.version,
+    dependencies: plugin.dependencies,
+    state: plugin.state !== undefined ? JSON.parse(JSON.stringify(plugin.state)) : undefined,
+    install: () => undefined
+  };
+}
+
+/**
+ * Replaces middleware by one with the same name that passes every transition on
+ */
+function stubMiddleware<TStage extends string, TData>(middleware: Middleware<TStage, TData>): Middleware<TStage, TData> {
+  return {
+    name: middleware.name,
+    execute: (_context, next) => next()
+  };
+}
+
+/**
+ * Copies stage configurations without their onEnter and onExit hooks
+ */
+function withoutStageHooks<TStage extends string, TData>(stages: StageConfig<TStage, TData>[]): StageConfig<TStage, TData>[] {
+  return stages.map(({ onEnter: _onEnter, onExit: _onExit, ...stage }) =>
+    stage.stages ? { ...stage, stages: withoutStageHooks(stage.stages) } : stage
+  );
+}
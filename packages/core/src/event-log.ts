@@ -0,0 +1,68 @@
+/**
+ * Event log system for StageFlow
+ *
+ * This module handles event-sourced recording including:
+ * - Recording each input with a logical timestamp and its clock time
+ * - Keeping entries JSON-safe and independent of later state changes
+ * - Comparing replayed results with recorded ones
+ */
+
+import { EventLogEntry, EventLogInput, EventLogResult, StageFlowClock } from './types/core';
+
+/**
+ * Event log class that records the inputs handled by an engine
+ */
+export class EventLog<TStage extends string, TData = unknown> {
+  private entries: EventLogEntry<TStage, TData>[] = [];
+  private clock: StageFlowClock;
+
+  constructor(clock: StageFlowClock) {
+    this.clock = clock;
+  }
+
+  /**
+   * Records a handled input together with the resulting state
+   */
+  record(input: EventLogInput<TStage, TData>, result: EventLogResult<TStage, TData>): void {
+    const entry = {
+      ...input,
+      seq: this.entries.length + 1,
+      time: this.clock.now(),
+      result
+    } as EventLogEntry<TStage, TData>;
+
+    this.entries.push(JSON.parse(JSON.stringify(entry)));
+  }
+
+  /**
+   * Gets a copy of the recorded entries
+   */
+  getEntries(): EventLogEntry<TStage, TData>[] {
+    return JSON.parse(JSON.stringify(this.entries));
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Checks whether a replayed result matches the recorded one
+ *
+ * Results are compared in their JSON form, as they are stored in the log.
+ */
+export function isSameResult<TStage extends string, TData>(
+  expected: EventLogResult<TStage, TData>,
+  actual: EventLogResult<TStage, TData>
+): boolean {
+  return JSON.stringify(normalizeResult(expected)) === JSON.stringify(normalizeResult(actual));
+}
+
+function normalizeResult<TStage extends string, TData>(
+  result: EventLogResult<TStage, TData>
+): EventLogResult<TStage, TData> {
+  return { stage: result.stage, data: result.data, error: result.error };
+}
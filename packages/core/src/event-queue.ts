@@ -0,0 +1,133 @@
+/**
+ * Event queue system for StageFlow
+ *
+ * This module handles events sent while a transition is in progress including:
+ * - Queueing policies (queue, drop, replace-latest, preempt, throw)
+ * - In-order processing of pending events
+ * - Deferring internal dispatches (such as invoked service results) regardless of policy
+ * - Settling each caller's promise when its own event is handled
+ */
+
+import { EventQueuePolicy } from './types/core';
+import { DevelopmentWarnings } from './validation';
+
+/**
+ * Pending event dispatch
+ */
+interface PendingEvent {
+  /** Description used in development warnings */
+  label: string;
+  /** Performs the dispatch once the engine is idle */
+  run: () => Promise<unknown>;
+  /** Internal dispatches are never dropped or replaced */
+  internal?: boolean;
+  resolve: (value?: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Event queue class that holds events until the current transition finishes
+ */
+export class EventQueue {
+  private policy: EventQueuePolicy;
+  private pending: PendingEvent[] = [];
+  private draining = false;
+
+  constructor(policy: EventQueuePolicy = 'throw') {
+    this.policy = policy;
+  }
+
+  /**
+   * Gets the active queueing policy
+   */
+  getPolicy(): EventQueuePolicy {
+    return this.policy;
+  }
+
+  /**
+   * Gets the number of pending events
+   */
+  size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Checks whether events are pending or being processed
+   */
+  isBusy(): boolean {
+    return this.draining || this.pending.length > 0;
+  }
+
+  /**
+   * Adds an event according to the queueing policy
+   *
+   * The returned promise settles with the dispatch result once the event has
+   * been handled, or resolves with undefined if the event is dropped, replaced
+   * or discarded. Not used with the `'throw'` policy.
+   */
+  enqueue<T>(label: string, run: () => Promise<T>): Promise<T | undefined> {
+    if (this.policy === 'drop') {
+      DevelopmentWarnings.warn(`Event "${label}" dropped while a transition is in progress`);
+      return Promise.resolve(undefined);
+    }
+
+    // A preempting event supersedes pending ones, like the latest replacement
+    if (this.policy === 'replace-latest' || this.policy === 'preempt') {
+      const kept: PendingEvent[] = [];
+      for (const pending of this.pending.splice(0)) {
+        if (pending.internal) {
+          kept.push(pending);
+          continue;
+        }
+        DevelopmentWarnings.warn(`Event "${pending.label}" replaced by "${label}" before it was handled`);
+        pending.resolve();
+      }
+      this.pending.push(...kept);
+    }
+
+    return new Promise<T | undefined>((resolve, reject) => {
+      this.pending.push({ label, run, resolve: resolve as (value?: unknown) => void, reject });
+    });
+  }
+
+  /**
+   * Adds an internal dispatch that runs once the engine is idle, whatever the policy
+   */
+  defer<T>(label: string, run: () => Promise<T>): Promise<T | undefined> {
+    return new Promise<T | undefined>((resolve, reject) => {
+      this.pending.push({ label, run, internal: true, resolve: resolve as (value?: unknown) => void, reject });
+    });
+  }
+
+  /**
+   * Processes pending events in order until the queue is empty or the engine is busy
+   */
+  async drain(isEngineBusy: () => boolean): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      while (this.pending.length > 0 && !isEngineBusy()) {
+        const next = this.pending.shift()!;
+        try {
+          next.resolve(await next.run());
+        } catch (error) {
+          next.reject(error);
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Discards all pending events, resolving their promises without handling them
+   */
+  clear(): void {
+    for (const discarded of this.pending.splice(0)) {
+      discarded.resolve();
+    }
+  }
+}
@@ -8,6 +8,8 @@ export * from './types/errors';
 
 // Export the main engine
 export { StageFlowEngine } from './engine';
+export { SNAPSHOT_VERSION } from './snapshot-manager';
+export { shallowEqual } from './state-manager';
 
 // Export built-in middleware
 export * from './middleware/built-in';
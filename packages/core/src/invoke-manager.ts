@@ -0,0 +1,92 @@
+/**
+ * Invoked service management for StageFlow
+ *
+ * This module handles async services started by stages including:
+ * - Starting a stage's service when the stage is entered
+ * - Aborting it through its AbortSignal when the stage is exited
+ * - Ignoring results that settle after the stage was left
+ */
+
+import { InvokeConfig, StageContext } from './types/core';
+
+/**
+ * Outcome of a settled service
+ */
+export type InvokeOutcome<TData> =
+  | { status: 'done'; result: TData | void }
+  | { status: 'error'; error: unknown };
+
+/**
+ * Invoke manager class that tracks the service invoked by each active stage
+ *
+ * An invocation stays registered until its stage is exited, even after the
+ * service settles, so that handling deferred until the engine is idle can
+ * still see it aborted.
+ */
+export class InvokeManager<TStage extends string, TData = unknown> {
+  private controllers: Map<TStage, AbortController> = new Map();
+
+  /**
+   * Starts a stage's service, aborting any service the stage is still running
+   *
+   * `onSettled` is only called while the invocation is current; it receives the
+   * invocation's signal so that deferred handling can check it again.
+   */
+  start(
+    stage: TStage,
+    invoke: InvokeConfig<TStage, TData>,
+    context: StageContext<TStage, TData>,
+    onSettled: (outcome: InvokeOutcome<TData>, signal: AbortSignal) => void
+  ): void {
+    this.stop(stage);
+
+    const controller = new AbortController();
+    this.controllers.set(stage, controller);
+
+    let service: Promise<TData | void>;
+    try {
+      service = Promise.resolve(invoke.src(context, controller.signal));
+    } catch (error) {
+      service = Promise.reject(error);
+    }
+
+    const settle = (outcome: InvokeOutcome<TData>): void => {
+      if (controller.signal.aborted || this.controllers.get(stage) !== controller) {
+        return;
+      }
+      onSettled(outcome, controller.signal);
+    };
+
+    service.then(
+      result => settle({ status: 'done', result }),
+      error => settle({ status: 'error', error })
+    );
+  }
+
+  /**
+   * Aborts the service invoked by a stage, if any
+   */
+  stop(stage: TStage): void {
+    const controller = this.controllers.get(stage);
+    if (controller) {
+      this.controllers.delete(stage);
+      controller.abort();
+    }
+  }
+
+  /**
+   * Aborts every invoked service
+   */
+  stopAll(): void {
+    for (const stage of Array.from(this.controllers.keys())) {
+      this.stop(stage);
+    }
+  }
+
+  /**
+   * Checks whether a stage has an invoked service
+   */
+  hasInvocation(stage: TStage): boolean {
+    return this.controllers.has(stage);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Lifecycle event system for StageFlow
+ *
+ * This module handles the events integrations observe through `engine.on()` including:
+ * - Listener registration per event name
+ * - Emitting typed payloads to every listener of an event
+ * - Isolating listener errors from the engine
+ */
+
+import { StageFlowLifecycleEventName, StageFlowLifecycleEvents } from './types/core';
+
+/**
+ * Listener of one lifecycle event
+ */
+type LifecycleListener<TStage extends string, TData, TName extends StageFlowLifecycleEventName> = (
+  payload: StageFlowLifecycleEvents<TStage, TData>[TName]
+) => void;
+
+/**
+ * Lifecycle event emitter class that notifies listeners of engine events
+ */
+export class LifecycleEventEmitter<TStage extends string, TData = unknown> {
+  // Payload types are erased here; emit() restores them from the event name
+  private listeners: Map<StageFlowLifecycleEventName, Set<(payload: never) => void>> = new Map();
+
+  /**
+   * Adds a listener for an event
+   */
+  on<TName extends StageFlowLifecycleEventName>(
+    name: TName,
+    listener: LifecycleListener<TStage, TData, TName>
+  ): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * Calls every listener of an event with its payload
+   */
+  emit<TName extends StageFlowLifecycleEventName>(
+    name: TName,
+    payload: StageFlowLifecycleEvents<TStage, TData>[TName]
+  ): void {
+    const listeners = Array.from(this.listeners.get(name) ?? []) as LifecycleListener<TStage, TData, TName>[];
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        // Only log errors in non-test environments
+        if (process.env.NODE_ENV !== 'test') {
+          console.error(`Lifecycle event listener error (${name}):`, error);
+        }
+      }
+    }
+  }
+}
@@ -13,9 +13,11 @@ import {
   StageConfig,
   StageContext,
   Plugin,
-  StageFlowEngine
+  StageFlowEngine,
+  StageChange
 } from './types/core';
 import { StageFlowError } from './types/errors';
+import { StageHierarchy } from './stage-hierarchy';
 
 /**
  * Lifecycle manager class that handles all lifecycle operations for StageFlow
@@ -25,13 +27,16 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
   private isStarted: boolean = false;
   private config: StageFlowConfig<TStage, TData>;
   private stageMap: Map<TStage, StageConfig<TStage, TData>>;
+  private hierarchy: StageHierarchy<TStage, TData>;
 
   constructor(
     config: StageFlowConfig<TStage, TData>,
-    stageMap: Map<TStage, StageConfig<TStage, TData>>
+    stageMap: Map<TStage, StageConfig<TStage, TData>>,
+    hierarchy: StageHierarchy<TStage, TData>
   ) {
     this.config = config;
     this.stageMap = stageMap;
+    this.hierarchy = hierarchy;
   }
 
   /**
@@ -50,8 +55,15 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
 
   /**
    * Starts the stage flow engine lifecycle
+   *
+   * Change listeners receive `cause` as the reason for the initial notification.
+   * Without `enter`, the active stages are taken as already entered: their
+   * onEnter hooks and the onStageEnter plugin hooks do not run.
    */
-  async start(): Promise<void> {
+  async start(
+    cause: Omit<StageChange<TStage, TData>, 'to' | 'data' | 'regions' | 'timestamp'> = { kind: 'start' },
+    enter: boolean = true
+  ): Promise<void> {
     if (!this.engine) {
       throw new StageFlowError('Engine not set', 'ENGINE_NOT_SET');
     }
@@ -79,37 +91,46 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
     context.goTo = (this.engine as any).goTo.bind(this.engine);
 
     // Execute onStageEnter plugin hooks for initial stage
-    await (this.engine as any).pluginManager.executePluginHooks('onStageEnter', context);
-
-    // Execute onEnter hook for initial stage if it exists
-    const initialStageConfig = this.stageMap.get((this.engine as any).stateManager.getCurrentStage());
-    if (initialStageConfig?.onEnter) {
-      try {
-        await initialStageConfig.onEnter(context);
-      } catch (error) {
-        console.error('Initial stage onEnter hook failed:', error);
+    if (enter) {
+      await (this.engine as any).pluginManager.executePluginHooks('onStageEnter', context);
+    }
+
+    // Execute onEnter hooks for every active stage, outermost first
+    const initialStages: TStage[] = (this.engine as any)._getActiveStages();
+    for (const stage of enter ? initialStages : []) {
+      const stageConfig = this.stageMap.get(stage);
+      if (stageConfig?.onEnter) {
+        try {
+          await stageConfig.onEnter(context);
+        } catch (error) {
+          console.error('Initial stage onEnter hook failed:', error);
+          (this.engine as any)._emit('hookError', { stage, hook: 'onEnter', error });
+        }
       }
     }
 
     // Notify subscribers of initial state
     (this.engine as any)._notifySubscribers(
       (this.engine as any).stateManager.getCurrentStage(),
-      (this.engine as any).stateManager.getCurrentData()
+      (this.engine as any).stateManager.getCurrentData(),
+      cause
     );
 
-    // Setup timers for initial stage
-    const currentStageConfig = this.stageMap.get((this.engine as any).stateManager.getCurrentStage());
-    if (currentStageConfig) {
-      (this.engine as any).timerManager.setupStageTimers(
-        (this.engine as any).stateManager.getCurrentStage(),
-        currentStageConfig,
-        (this.engine as any)._executeTransition.bind(this.engine),
-        () => (this.engine as any).stateManager.getCurrentStage(),
-        () => this.isStarted,
-        () => (this.engine as any).stateManager.isTransitioning(),
-        () => (this.engine as any).stateManager.getCurrentData()
-      );
+    // Setup timers for every active stage, or resume those of a restored snapshot
+    const restoredTimers = (this.engine as any).snapshotManager.takePendingTimers();
+    if (restoredTimers) {
+      (this.engine as any)._restoreTimers(restoredTimers);
+    } else {
+      this.setupActiveTimers();
     }
+
+    // Start the services of every active stage
+    (this.engine as any)._startInvokes(initialStages);
+
+    // Starting in a final stage (e.g. restored from persistence) completes the flow
+    await (this.engine as any)._completeIfFinal();
+
+    this.emitWithCurrentState('start');
   }
 
   /**
@@ -126,8 +147,12 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
 
     this.isStarted = false;
 
-    // Clear all timers
+    // Clear all timers and abort invoked services
     (this.engine as any).timerManager.clearAllTimers();
+    (this.engine as any)._stopAllInvokes();
+
+    // Discard events still waiting for a transition to finish
+    (this.engine as any)._clearEventQueue();
 
     // Create context for current stage
     const context = (this.engine as any).stateManager.createStageContext();
@@ -138,18 +163,24 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
     // Execute onStageExit plugin hooks for current stage
     await (this.engine as any).pluginManager.executePluginHooks('onStageExit', context);
 
-    // Execute onExit hook for current stage if it exists
-    const currentStageConfig = this.stageMap.get((this.engine as any).stateManager.getCurrentStage());
-    if (currentStageConfig?.onExit) {
-      try {
-        await currentStageConfig.onExit(context);
-      } catch (error) {
-        console.error('Current stage onExit hook failed:', error);
+    // Execute onExit hooks for every active stage, innermost first
+    const activeStages: TStage[] = (this.engine as any)._getActiveStages();
+    for (const stage of activeStages.reverse()) {
+      const stageConfig = this.stageMap.get(stage);
+      if (stageConfig?.onExit) {
+        try {
+          await stageConfig.onExit(context);
+        } catch (error) {
+          console.error('Current stage onExit hook failed:', error);
+          (this.engine as any)._emit('hookError', { stage, hook: 'onExit', error });
+        }
       }
     }
 
     // Uninstall plugins in reverse dependency order
     await (this.engine as any).pluginManager.uninstallAllPlugins();
+
+    this.emitWithCurrentState('stop');
   }
 
   /**
@@ -161,33 +192,61 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
     }
 
     const wasStarted = this.isStarted;
+    const previousStage: TStage = (this.engine as any).stateManager.getCurrentStage();
+    const previousData: TData | undefined = (this.engine as any).stateManager.getCurrentData();
 
     // Stop the engine first
     await this.stop();
 
-    // Clear all timers
+    // Clear all timers, including any kept from a restored snapshot
     (this.engine as any).timerManager.clearAllTimers();
+    (this.engine as any).snapshotManager.takePendingTimers();
 
-    // Reset state to initial
-    (this.engine as any).stateManager.resetState(this.config.initial, undefined);
-
-    // Set up timers for the initial stage
-    const initialStageConfig = this.stageMap.get(this.config.initial);
-    if (initialStageConfig) {
-      (this.engine as any).timerManager.setupStageTimers(
-        this.config.initial,
-        initialStageConfig,
-        (this.engine as any)._executeTransition.bind(this.engine),
-        () => (this.engine as any).stateManager.getCurrentStage(),
-        () => this.isStarted,
-        () => (this.engine as any).stateManager.isTransitioning(),
-        () => (this.engine as any).stateManager.getCurrentData()
-      );
-    }
+    // Reset state to initial (compound initial stages resolve to their initial leaf)
+    const initialConfiguration = this.hierarchy.getInitialConfiguration(this.config.initial);
+    (this.engine as any).stateManager.resetState(initialConfiguration.current, undefined, initialConfiguration.regions);
+
+    // Recording starts over from the initial state
+    (this.engine as any).eventLog?.clear();
+
+    // Set up timers for the initially active stages
+    this.setupActiveTimers();
 
     // Restart if it was previously started
     if (wasStarted) {
-      await this.start();
+      await this.start({ kind: 'reset', from: previousStage, previousData });
+    }
+
+    this.emitWithCurrentState('reset');
+  }
+
+  /**
+   * Emits a lifecycle event with the current stage and data
+   */
+  private emitWithCurrentState(name: 'start' | 'stop' | 'reset'): void {
+    (this.engine as any)._emit(name, {
+      stage: (this.engine as any).stateManager.getCurrentStage(),
+      data: (this.engine as any).stateManager.getCurrentData()
+    });
+  }
+
+  /**
+   * Sets up timers for every active stage (ancestors and regions included)
+   */
+  private setupActiveTimers(): void {
+    for (const stage of (this.engine as any)._getActiveStages() as TStage[]) {
+      const stageConfig = this.stageMap.get(stage);
+      if (stageConfig) {
+        (this.engine as any).timerManager.setupStageTimers(
+          stage,
+          stageConfig,
+          (this.engine as any)._fireTimer.bind(this.engine),
+          (activeStage: TStage) => (this.engine as any)._isStageActive(activeStage),
+          () => this.isStarted,
+          () => (this.engine as any).stateManager.isTransitioning(),
+          () => (this.engine as any).stateManager.getCurrentData()
+        );
+      }
     }
   }
 
@@ -303,4 +362,11 @@ export class LifecycleManager<TStage extends string, TData = unknown> {
   updateStageMap(stageMap: Map<TStage, StageConfig<TStage, TData>>): void {
     this.stageMap = stageMap;
   }
+
+  /**
+   * Updates the configuration used to find the initial stage and plugins
+   */
+  updateConfig(config: StageFlowConfig<TStage, TData>): void {
+    this.config = config;
+  }
 } 
\ No newline at end of file
@@ -220,7 +220,8 @@ export class PluginManager<TStage extends string, TData = unknown> {
    */
   async executePluginHooks(
     hookType: keyof NonNullable<Plugin<TStage, TData>['hooks']>,
-    context: StageContext<TStage, TData> | TransitionContext<TStage, TData>
+    context: StageContext<TStage, TData> | TransitionContext<TStage, TData>,
+    ...args: unknown[]
   ): Promise<void> {
     const plugins = Array.from(this.plugins.values());
     const sortedPlugins = this._sortPluginsByDependencies(plugins);
@@ -233,7 +234,8 @@ export class PluginManager<TStage extends string, TData = unknown> {
       try {
         const hook = plugin.hooks[hookType];
         if (hook) {
-          await hook(context as StageContext<TStage, TData> & TransitionContext<TStage, TData>); // Type assertion needed due to union type
+          // Type assertion needed due to union type; extra arguments such as the onDone output are passed through
+          await (hook as (context: unknown, ...hookArgs: unknown[]) => void | Promise<void>)(context, ...args);
         }
       } catch (error) {
         // Plugin errors should not break the entire flow
@@ -0,0 +1,180 @@
+/**
+ * Snapshot management system for StageFlow
+ *
+ * This module handles engine snapshots including:
+ * - Capturing the complete runtime state in one versioned, JSON-safe document
+ * - Validating snapshots against the configured stages
+ * - Restoring state, plugin state and timers from a snapshot
+ */
+
+import {
+  StageConfig,
+  StageFlowEngine,
+  StageFlowSnapshot,
+  TimerSnapshot
+} from './types/core';
+import { StageFlowError, TransitionError } from './types/errors';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Snapshot manager class that captures and restores engine snapshots
+ */
+export class SnapshotManager<TStage extends string, TData = unknown> {
+  private engine: StageFlowEngine<TStage, TData> | null = null;
+  private stageMap: Map<TStage, StageConfig<TStage, TData>>;
+  private pendingTimers: TimerSnapshot<TStage>[] | undefined;
+
+  constructor(stageMap: Map<TStage, StageConfig<TStage, TData>>) {
+    this.stageMap = stageMap;
+  }
+
+  /**
+   * Sets the engine reference for the snapshot manager
+   */
+  setEngine(engine: StageFlowEngine<TStage, TData>): void {
+    this.engine = engine;
+  }
+
+  /**
+   * Captures the engine's runtime state
+   */
+  capture(): StageFlowSnapshot<TStage, TData> {
+    const engine = this.getEngine();
+    const stateManager = engine.stateManager;
+
+    if (stateManager.isTransitioning()) {
+      throw new TransitionError('Cannot take a snapshot while a transition is in progress');
+    }
+
+    const state = stateManager.getState();
+    const timers: TimerSnapshot<TStage>[] | undefined = engine.lifecycleManager.isEngineStarted()
+      ? engine.timerManager.getTimerSnapshots()
+      : this.pendingTimers;
+
+    const snapshot: StageFlowSnapshot<TStage, TData> = {
+      version: SNAPSHOT_VERSION,
+      current: state.current,
+      regions: state.regions,
+      data: state.data,
+      history: state.history,
+      historyIndex: stateManager.getHistoryIndex(),
+      done: stateManager.isDone(),
+      output: stateManager.getOutput(),
+      plugins: Object.fromEntries(stateManager.getPluginState()),
+      timers,
+      timestamp: Date.now()
+    };
+
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Replaces the engine's runtime state with a snapshot
+   *
+   * On a started engine the snapshot's timers are re-armed and the services of
+   * the active stages are started again. Otherwise the timers are kept until
+   * the engine starts. An event log no longer leads to the restored state and
+   * is cleared.
+   */
+  restore(snapshot: StageFlowSnapshot<TStage, TData>): void {
+    const engine = this.getEngine();
+    this.validate(snapshot);
+
+    if (engine.stateManager.isTransitioning()) {
+      throw new TransitionError('Cannot restore a snapshot while a transition is in progress');
+    }
+
+    const restored: StageFlowSnapshot<TStage, TData> = JSON.parse(JSON.stringify(snapshot));
+    const previousStage: TStage = engine.stateManager.getCurrentStage();
+    const previousData: TData | undefined = engine.stateManager.getCurrentData();
+
+    engine.timerManager.clearAllTimers();
+    engine._stopAllInvokes();
+    engine._clearEventQueue();
+    engine.stateManager.restoreSnapshot(restored);
+    engine.eventLog?.clear();
+    this.pendingTimers = undefined;
+
+    if (!engine.lifecycleManager.isEngineStarted()) {
+      this.pendingTimers = restored.timers;
+    } else if (!restored.done) {
+      const activeStages: TStage[] = engine._getActiveStages();
+      if (restored.timers) {
+        engine._restoreTimers(restored.timers);
+      } else {
+        for (const stage of activeStages) {
+          const stageConfig = this.stageMap.get(stage);
+          if (stageConfig) {
+            engine._setupStageTimers(stage, stageConfig);
+          }
+        }
+      }
+      engine._startInvokes(activeStages);
+    }
+
+    engine._notifySubscribers(restored.current, restored.data, { kind: 'restore', from: previousStage, previousData });
+  }
+
+  /**
+   * Returns and forgets the timers of a snapshot restored before the engine started
+   */
+  takePendingTimers(): TimerSnapshot<TStage>[] | undefined {
+    const timers = this.pendingTimers;
+    this.pendingTimers = undefined;
+    return timers;
+  }
+
+  /**
+   * Checks the snapshot version and that every stage it refers to exists
+   */
+  private validate(snapshot: StageFlowSnapshot<TStage, TData>): void {
+    if (!snapshot || typeof snapshot !== 'object') {
+      throw new StageFlowError('Snapshot must be an object', 'INVALID_SNAPSHOT');
+    }
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new StageFlowError(
+        `Snapshot version ${snapshot.version} is not supported (expected ${SNAPSHOT_VERSION})`,
+        'SNAPSHOT_VERSION_MISMATCH',
+        { version: snapshot.version }
+      );
+    }
+
+    if (!Array.isArray(snapshot.history)) {
+      throw new StageFlowError('Snapshot history must be an array', 'INVALID_SNAPSHOT');
+    }
+
+    const stages: TStage[] = [
+      snapshot.current,
+      ...Object.values(snapshot.regions ?? {}) as TStage[],
+      ...snapshot.history.map(entry => entry.stage),
+      ...(snapshot.timers ?? []).flatMap(timer => [timer.stage, timer.target])
+    ];
+    for (const stage of stages) {
+      if (!this.stageMap.has(stage)) {
+        throw new StageFlowError(`Snapshot stage "${stage}" does not exist`, 'INVALID_SNAPSHOT', { stage });
+      }
+    }
+
+    const { historyIndex } = snapshot;
+    if (snapshot.history.length > 0 && (historyIndex < 0 || historyIndex >= snapshot.history.length)) {
+      throw new StageFlowError(`Snapshot history index ${historyIndex} is out of range`, 'INVALID_SNAPSHOT', {
+        historyIndex
+      });
+    }
+  }
+
+  /**
+   * Gets the engine internals the snapshot is read from and written to
+   */
+  private getEngine(): any {
+    if (!this.engine) {
+      throw new StageFlowError('Engine not set', 'ENGINE_NOT_SET');
+    }
+    return this.engine as any;
+  }
+}
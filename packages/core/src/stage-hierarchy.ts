@@ -0,0 +1,325 @@
+/**
+ * Stage hierarchy system for StageFlow
+ *
+ * This module handles nested (compound and parallel) stage structure including:
+ * - Flattening nested stage configurations
+ * - Parent/ancestor lookups and active path resolution
+ * - Initial child resolution for compound stages and regions of parallel stages
+ * - Exit/entry ordering for transitions between nested stages
+ */
+
+import { StageConfig, Transition, RegionStages } from './types/core';
+
+/**
+ * Flattens a nested stage tree into a single array (parents before children)
+ */
+export function flattenStages<TStage extends string, TData = unknown>(
+  stages: StageConfig<TStage, TData>[]
+): StageConfig<TStage, TData>[] {
+  const result: StageConfig<TStage, TData>[] = [];
+
+  const visit = (stageList: StageConfig<TStage, TData>[]): void => {
+    for (const stage of stageList) {
+      result.push(stage);
+      if (stage && Array.isArray(stage.stages)) {
+        visit(stage.stages);
+      }
+    }
+  };
+
+  visit(stages);
+  return result;
+}
+
+/**
+ * Set of active stages, described by the main stage and the leaf of each region
+ */
+export interface ActiveConfiguration<TStage extends string> {
+  /** Current leaf stage, or the parallel stage while its regions are active */
+  current: TStage;
+  /** Active leaf of each region of the current parallel stage */
+  regions?: RegionStages<TStage>;
+}
+
+/**
+ * Exit/entry plan for a transition between two stages
+ */
+export interface TransitionSteps<TStage extends string> {
+  /** Stages to exit, deepest first */
+  exit: TStage[];
+  /** Stages to enter, outermost first */
+  entry: TStage[];
+  /** Active configuration once the transition completes */
+  configuration: ActiveConfiguration<TStage>;
+}
+
+/**
+ * Stage hierarchy class that answers structural questions about nested stages
+ */
+export class StageHierarchy<TStage extends string, TData = unknown> {
+  private parents: Map<TStage, TStage | undefined> = new Map();
+  private configs: Map<TStage, StageConfig<TStage, TData>> = new Map();
+  private owners: WeakMap<Transition<TStage, TData>, TStage> = new WeakMap();
+
+  constructor(stages: StageConfig<TStage, TData>[]) {
+    this.rebuild(stages);
+  }
+
+  /**
+   * Rebuilds the hierarchy from a (possibly nested) stage array
+   */
+  rebuild(stages: StageConfig<TStage, TData>[]): void {
+    this.parents = new Map();
+    this.configs = new Map();
+    this.owners = new WeakMap();
+
+    const visit = (stageList: StageConfig<TStage, TData>[], parent?: TStage): void => {
+      for (const stage of stageList) {
+        if (!stage || !stage.name) {
+          continue;
+        }
+        this.parents.set(stage.name, parent);
+        this.configs.set(stage.name, stage);
+        for (const transition of stage.transitions || []) {
+          if (transition) {
+            this.owners.set(transition, stage.name);
+          }
+        }
+        if (Array.isArray(stage.stages)) {
+          visit(stage.stages, stage.name);
+        }
+      }
+    };
+
+    visit(stages);
+  }
+
+  /**
+   * Gets the parent of a stage, or undefined for top-level stages
+   */
+  getParent(stage: TStage): TStage | undefined {
+    return this.parents.get(stage);
+  }
+
+  /**
+   * Gets all ancestors of a stage, nearest first
+   */
+  getAncestors(stage: TStage): TStage[] {
+    const ancestors: TStage[] = [];
+    let parent = this.parents.get(stage);
+    while (parent !== undefined) {
+      ancestors.push(parent);
+      parent = this.parents.get(parent);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Gets the path from the top-level stage down to (and including) the given stage
+   */
+  getPath(stage: TStage): TStage[] {
+    return [...this.getAncestors(stage).reverse(), stage];
+  }
+
+  /**
+   * Checks whether a stage has child stages
+   */
+  isCompound(stage: TStage): boolean {
+    const children = this.configs.get(stage)?.stages;
+    return Array.isArray(children) && children.length > 0;
+  }
+
+  /**
+   * Checks whether a stage is a parallel stage (all children active at once)
+   */
+  isParallel(stage: TStage): boolean {
+    return this.configs.get(stage)?.type === 'parallel' && this.isCompound(stage);
+  }
+
+  /**
+   * Gets the direct children of a stage
+   */
+  getChildren(stage: TStage): TStage[] {
+    return (this.configs.get(stage)?.stages || []).map(child => child.name);
+  }
+
+  /**
+   * Gets the region (direct child of a parallel stage) containing a stage, if any
+   */
+  getRegion(stage: TStage): TStage | undefined {
+    for (const candidate of [stage, ...this.getAncestors(stage)]) {
+      const parent = this.parents.get(candidate);
+      if (parent !== undefined && this.isParallel(parent)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks whether `stage` is `ancestor` or one of its descendants
+   */
+  isDescendantOf(stage: TStage, ancestor: TStage): boolean {
+    return stage === ancestor || this.getAncestors(stage).includes(ancestor);
+  }
+
+  /**
+   * Resolves a stage to the stage that is entered when it is targeted
+   *
+   * Compound stages resolve to their initial leaf; resolution stops at a
+   * parallel stage, whose regions are entered separately.
+   */
+  resolveInitial(stage: TStage): TStage {
+    let current = stage;
+    while (this.isCompound(current) && !this.isParallel(current)) {
+      const config = this.configs.get(current)!;
+      current = config.initial ?? config.stages![0].name;
+    }
+    return current;
+  }
+
+  /**
+   * Gets the configuration that results from entering a stage with default entry
+   */
+  getInitialConfiguration(stage: TStage): ActiveConfiguration<TStage> {
+    const current = this.resolveInitial(stage);
+    if (!this.isParallel(current)) {
+      return { current };
+    }
+
+    const regions: RegionStages<TStage> = {};
+    for (const region of this.getChildren(current)) {
+      regions[region] = this.resolveInitial(region);
+    }
+    return { current, regions };
+  }
+
+  /**
+   * Lists every active stage, parents before children and regions in declaration order
+   */
+  getActiveStages(configuration: ActiveConfiguration<TStage>): TStage[] {
+    const active = this.getPath(configuration.current);
+    if (configuration.regions) {
+      for (const region of this.getChildren(configuration.current)) {
+        const leaf = configuration.regions[region];
+        if (leaf !== undefined) {
+          const path = this.getPath(leaf);
+          active.push(...path.slice(path.indexOf(region)));
+        }
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Checks whether a stage is active in the given configuration
+   */
+  isActive(configuration: ActiveConfiguration<TStage>, stage: TStage): boolean {
+    if (this.isDescendantOf(configuration.current, stage)) {
+      return true;
+    }
+    return Object.values(configuration.regions || {}).some(
+      leaf => leaf !== undefined && this.isDescendantOf(leaf as TStage, stage)
+    );
+  }
+
+  /**
+   * Gets the stage that declares a transition, if it was declared on a stage
+   */
+  getTransitionSource(transition: Transition<TStage, TData>): TStage | undefined {
+    return this.owners.get(transition);
+  }
+
+  /**
+   * Computes which stages are exited and entered when `source` (an active stage)
+   * transitions to `target`
+   *
+   * Transitions are external: the source and target are always exited/entered,
+   * even when one contains the other. Entering a parallel stage enters all of its
+   * regions; transitions within one region leave the other regions untouched.
+   */
+  getTransitionSteps(
+    configuration: ActiveConfiguration<TStage>,
+    source: TStage,
+    target: TStage
+  ): TransitionSteps<TStage> {
+    const sourcePath = this.getPath(source);
+    const targetPath = this.getPath(target);
+
+    // Depth of the deepest common proper ancestor (the transition domain)
+    const maxDepth = Math.min(sourcePath.length, targetPath.length) - 1;
+    let depth = 0;
+    while (depth < maxDepth && sourcePath[depth] === targetPath[depth]) {
+      depth++;
+    }
+    const domain = depth > 0 ? targetPath[depth - 1] : undefined;
+
+    // Exit every active stage below the domain
+    const active = this.getActiveStages(configuration);
+    const exit = active
+      .filter(stage => domain === undefined || (stage !== domain && this.isDescendantOf(stage, domain)))
+      .reverse();
+
+    // Enter the target path, plus default entry for sibling regions of any
+    // parallel stage on the way and for the target itself
+    const entry: TStage[] = [];
+    const siblingRegions: TStage[] = [];
+    for (let i = Math.max(depth - 1, 0); i < targetPath.length - 1; i++) {
+      if (i >= depth) {
+        entry.push(targetPath[i]);
+      }
+      if (this.isParallel(targetPath[i])) {
+        siblingRegions.push(...this.getChildren(targetPath[i]).filter(child => child !== targetPath[i + 1]));
+      }
+    }
+    this.addDefaultEntry(target, entry);
+    for (const region of siblingRegions) {
+      this.addDefaultEntry(region, entry);
+    }
+
+    const remaining = active.filter(stage => !exit.includes(stage));
+
+    return {
+      exit,
+      entry,
+      configuration: this.toConfiguration([...remaining, ...entry])
+    };
+  }
+
+  /**
+   * Adds a stage and its default descendants to an entry list
+   */
+  private addDefaultEntry(stage: TStage, entry: TStage[]): void {
+    entry.push(stage);
+    if (this.isParallel(stage)) {
+      for (const region of this.getChildren(stage)) {
+        this.addDefaultEntry(region, entry);
+      }
+    } else if (this.isCompound(stage)) {
+      const config = this.configs.get(stage)!;
+      this.addDefaultEntry(config.initial ?? config.stages![0].name, entry);
+    }
+  }
+
+  /**
+   * Derives the active configuration from a set of active stages
+   */
+  private toConfiguration(stages: TStage[]): ActiveConfiguration<TStage> {
+    const deepest = (candidates: TStage[]): TStage =>
+      candidates.reduce((a, b) => (this.getPath(b).length > this.getPath(a).length ? b : a));
+
+    const parallel = stages.find(stage => this.isParallel(stage));
+    if (parallel === undefined) {
+      return { current: deepest(stages) };
+    }
+
+    const regions: RegionStages<TStage> = {};
+    for (const region of this.getChildren(parallel)) {
+      const inRegion = stages.filter(stage => this.isDescendantOf(stage, region));
+      if (inRegion.length > 0) {
+        regions[region] = deepest(inRegion);
+      }
+    }
+    return { current: parallel, regions };
+  }
+}
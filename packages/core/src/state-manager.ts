@@ -12,24 +12,73 @@ import {
   StageFlowState,
   StageContext,
   StageConfig,
-  EffectConfig
+  EffectConfig,
+  RegionStages,
+  StageFlowSnapshot,
+  StageFlowClock,
+  StageChange
 } from './types/core';
 import { StageFlowError } from './types/errors';
 
+/**
+ * Stage, data and history captured before a transition, to roll it back
+ */
+export interface StateCheckpoint<TStage extends string, TData = unknown> {
+  current: TStage;
+  regions?: RegionStages<TStage>;
+  data?: TData;
+  history: Array<{ stage: TStage; timestamp: number; data?: TData }>;
+  historyIndex?: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Compares two values with Object.is, and plain objects key by key
+ *
+ * Useful as the equality function of `engine.select()` when the selector
+ * builds a new object on each call.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
 /**
  * State manager class that handles all state operations for StageFlow
  */
 export class StateManager<TStage extends string, TData = unknown> {
   private state: StageFlowState<TStage, TData>;
-  private subscribers: Set<(stage: TStage, data?: TData) => void> = new Set();
+  private subscribers: Set<(stage: TStage, data?: TData, regions?: RegionStages<TStage>) => void> = new Set();
+  private changeSubscribers: Set<(change: StageChange<TStage, TData>) => void> = new Set();
+  private doneSubscribers: Set<(output: unknown) => void> = new Set();
+  private done = false;
+  private output: unknown;
   private stageMap: Map<TStage, StageConfig<TStage, TData>>;
+  private clock: StageFlowClock;
 
   constructor(
     initialState: StageFlowState<TStage, TData>,
-    stageMap: Map<TStage, StageConfig<TStage, TData>>
+    stageMap: Map<TStage, StageConfig<TStage, TData>>,
+    clock: StageFlowClock = { now: () => Date.now() }
   ) {
     this.state = { ...initialState };
     this.stageMap = stageMap;
+    this.clock = clock;
   }
 
   /**
@@ -46,6 +95,13 @@ export class StateManager<TStage extends string, TData = unknown> {
     return this.state.current;
   }
 
+  /**
+   * Gets the active leaf of each region, if the current stage is parallel
+   */
+  getRegionStages(): RegionStages<TStage> | undefined {
+    return this.state.regions ? { ...this.state.regions } : undefined;
+  }
+
   /**
    * Gets the current stage data
    */
@@ -90,7 +146,7 @@ export class StateManager<TStage extends string, TData = unknown> {
     return {
       current: this.state.current,
       data: this.state.data,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       send: () => {
         throw new Error('send method must be provided by engine');
       },
@@ -107,6 +163,13 @@ export class StateManager<TStage extends string, TData = unknown> {
     this.state.current = stage;
   }
 
+  /**
+   * Updates the active region stages (undefined outside parallel stages)
+   */
+  updateRegionStages(regions: RegionStages<TStage> | undefined): void {
+    this.state.regions = regions ? { ...regions } : undefined;
+  }
+
   /**
    * Updates the current stage data
    */
@@ -114,6 +177,13 @@ export class StateManager<TStage extends string, TData = unknown> {
     this.state.data = data;
   }
 
+  /**
+   * Checks whether data equals the current stage data, comparing plain objects key by key
+   */
+  isCurrentData(data: TData | undefined): boolean {
+    return shallowEqual(this.state.data, data);
+  }
+
   /**
    * Sets the transitioning state
    */
@@ -130,13 +200,47 @@ export class StateManager<TStage extends string, TData = unknown> {
 
   /**
    * Adds an entry to the history
+   *
+   * Entries after the history cursor (left by navigating back) are discarded.
    */
   addToHistory(stage: TStage, data?: TData): void {
+    this.state.history.splice(this.getHistoryIndex() + 1);
     this.state.history.push({
       stage,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       data
     });
+    this.state.historyIndex = this.state.history.length - 1;
+  }
+
+  /**
+   * Gets the position of the current entry in history
+   */
+  getHistoryIndex(): number {
+    return this.state.historyIndex ?? this.state.history.length - 1;
+  }
+
+  /**
+   * Moves the history cursor without adding an entry
+   */
+  setHistoryIndex(index: number): void {
+    if (index < 0 || index >= this.state.history.length) {
+      throw new StageFlowError(
+        `History index ${index} is out of range`,
+        'HISTORY_INDEX_OUT_OF_RANGE'
+      );
+    }
+    this.state.historyIndex = index;
+  }
+
+  /**
+   * Updates the data recorded for the current history entry
+   */
+  updateHistoryData(data?: TData): void {
+    const entry = this.state.history[this.getHistoryIndex()];
+    if (entry) {
+      entry.data = data;
+    }
   }
 
   /**
@@ -151,6 +255,7 @@ export class StateManager<TStage extends string, TData = unknown> {
    */
   clearHistory(): void {
     this.state.history = [];
+    this.state.historyIndex = undefined;
   }
 
   /**
@@ -184,7 +289,7 @@ export class StateManager<TStage extends string, TData = unknown> {
   /**
    * Subscribes to state changes
    */
-  subscribe(callback: (stage: TStage, data?: TData) => void): () => void {
+  subscribe(callback: (stage: TStage, data?: TData, regions?: RegionStages<TStage>) => void): () => void {
     this.subscribers.add(callback);
 
     // Return unsubscribe function
@@ -193,13 +298,53 @@ export class StateManager<TStage extends string, TData = unknown> {
     };
   }
 
+  /**
+   * Subscribes to a slice of the state
+   *
+   * The listener is called only when the selected value is not equal to the
+   * previously selected one.
+   */
+  select<TSelected>(
+    selector: (state: { stage: TStage; data?: TData }) => TSelected,
+    listener: (selected: TSelected, previous: TSelected) => void,
+    equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+  ): () => void {
+    const read = () => selector({ stage: this.state.current, data: this.state.data });
+    let selected = read();
+
+    return this.subscribe(() => {
+      const next = read();
+      if (!equalityFn(selected, next)) {
+        const previous = selected;
+        selected = next;
+        listener(next, previous);
+      }
+    });
+  }
+
+  /**
+   * Subscribes to state changes with a record of their cause
+   */
+  subscribeToChanges(listener: (change: StageChange<TStage, TData>) => void): () => void {
+    this.changeSubscribers.add(listener);
+
+    return () => {
+      this.changeSubscribers.delete(listener);
+    };
+  }
+
   /**
    * Notifies all subscribers of state changes
    */
-  notifySubscribers(stage: TStage, data?: TData): void {
+  notifySubscribers(stage: TStage, data?: TData, change?: StageChange<TStage, TData>): void {
+    const regions = this.getRegionStages();
     for (const callback of this.subscribers) {
       try {
-        callback(stage, data);
+        if (regions) {
+          callback(stage, data, regions);
+        } else {
+          callback(stage, data);
+        }
       } catch (error) {
         // Only log errors in non-test environments
         if (process.env.NODE_ENV !== 'test') {
@@ -207,6 +352,64 @@ export class StateManager<TStage extends string, TData = unknown> {
         }
       }
     }
+
+    if (!change) {
+      return;
+    }
+    for (const listener of this.changeSubscribers) {
+      try {
+        listener(change);
+      } catch (error) {
+        // Only log errors in non-test environments
+        if (process.env.NODE_ENV !== 'test') {
+          console.error('Change subscriber callback error:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks whether the flow has reached a final stage
+   */
+  isDone(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Gets the output of a completed flow
+   */
+  getOutput(): unknown {
+    return this.output;
+  }
+
+  /**
+   * Marks the flow as done and notifies done subscribers with its output
+   */
+  setDone(output: unknown): void {
+    this.done = true;
+    this.output = output;
+
+    for (const callback of Array.from(this.doneSubscribers)) {
+      try {
+        callback(output);
+      } catch (error) {
+        // Only log errors in non-test environments
+        if (process.env.NODE_ENV !== 'test') {
+          console.error('Done subscriber callback error:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Subscribes to flow completion
+   */
+  subscribeToDone(callback: (output: unknown) => void): () => void {
+    this.doneSubscribers.add(callback);
+
+    return () => {
+      this.doneSubscribers.delete(callback);
+    };
   }
 
   /**
@@ -221,6 +424,7 @@ export class StateManager<TStage extends string, TData = unknown> {
    */
   clearSubscribers(): void {
     this.subscribers.clear();
+    this.changeSubscribers.clear();
   }
 
   /**
@@ -229,9 +433,11 @@ export class StateManager<TStage extends string, TData = unknown> {
   serializeState(): string {
     return JSON.stringify({
       current: this.state.current,
+      regions: this.state.regions,
       data: this.state.data,
       isTransitioning: this.state.isTransitioning,
       history: this.state.history,
+      historyIndex: this.state.historyIndex,
       plugins: Array.from(this.state.plugins.entries()),
       middleware: this.state.middleware
     });
@@ -245,10 +451,14 @@ export class StateManager<TStage extends string, TData = unknown> {
       const restoredState = JSON.parse(serializedState);
       
       this.state.current = restoredState.current;
+      this.state.regions = restoredState.regions;
       this.state.data = restoredState.data;
       this.state.isTransitioning = restoredState.isTransitioning;
       this.state.history = restoredState.history || [];
+      this.state.historyIndex = restoredState.historyIndex;
       this.state.middleware = restoredState.middleware || [];
+      this.done = false;
+      this.output = undefined;
       
       // Restore plugins map
       this.state.plugins.clear();
@@ -265,22 +475,69 @@ export class StateManager<TStage extends string, TData = unknown> {
     }
   }
 
+  /**
+   * Replaces the state with the one captured in an engine snapshot
+   */
+  restoreSnapshot(snapshot: StageFlowSnapshot<TStage, TData>): void {
+    this.state.current = snapshot.current;
+    this.state.regions = snapshot.regions ? { ...snapshot.regions } : undefined;
+    this.state.data = snapshot.data;
+    this.state.isTransitioning = false;
+    this.state.history = snapshot.history.map(entry => ({ ...entry }));
+    this.state.historyIndex = snapshot.history.length > 0 ? snapshot.historyIndex : undefined;
+    this.done = snapshot.done;
+    this.output = snapshot.output;
+
+    this.state.plugins.clear();
+    const plugins = this.state.plugins as unknown as Map<string, Record<string, unknown>>;
+    for (const [name, state] of Object.entries(snapshot.plugins)) {
+      plugins.set(name, state);
+    }
+  }
+
+  /**
+   * Captures the stage, data and history so that a transition can be rolled back
+   */
+  checkpoint(): StateCheckpoint<TStage, TData> {
+    return {
+      current: this.state.current,
+      regions: this.state.regions ? { ...this.state.regions } : undefined,
+      data: this.state.data,
+      history: this.state.history.map(entry => ({ ...entry })),
+      historyIndex: this.state.historyIndex
+    };
+  }
+
+  /**
+   * Restores the stage, data and history captured by checkpoint()
+   */
+  restoreCheckpoint(checkpoint: StateCheckpoint<TStage, TData>): void {
+    this.state.current = checkpoint.current;
+    this.state.regions = checkpoint.regions ? { ...checkpoint.regions } : undefined;
+    this.state.data = checkpoint.data;
+    this.state.history = checkpoint.history.map(entry => ({ ...entry }));
+    this.state.historyIndex = checkpoint.historyIndex;
+  }
+
   /**
    * Resets the state to initial values
    */
-  resetState(initialStage: TStage, initialData?: TData): void {
+  resetState(initialStage: TStage, initialData?: TData, regions?: RegionStages<TStage>): void {
     this.state = {
       current: initialStage,
+      regions: regions ? { ...regions } : undefined,
       data: initialData,
       isTransitioning: false,
       history: [{
         stage: initialStage,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         data: initialData
       }],
       plugins: new Map(),
       middleware: []
     };
+    this.done = false;
+    this.output = undefined;
   }
 
   /**
@@ -15,29 +15,80 @@ import {
   TimerEvent,
   TimerEventListener,
   TimerConfig,
-  TimerState
+  TimerState,
+  TimerSnapshot
 } from './types/core';
 
+/**
+ * Schedules timer callbacks and reads the time timers are measured against
+ */
+export interface TimerScheduler {
+  setTimeout(callback: () => unknown, delay: number): unknown;
+  clearTimeout(handle: unknown): void;
+  now(): number;
+}
+
+/**
+ * Scheduler using the global timer functions, looked up on every call so fake timers apply
+ */
+const realScheduler: TimerScheduler = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now()
+};
+
+/**
+ * What a timer was armed for, kept so it never has to be recovered from the timer id
+ */
+interface TimerEntry<TStage extends string> {
+  stage: TStage;
+  target: TStage;
+  duration: number;
+  startedAt: number;
+}
+
 /**
  * Timer manager class that handles all timer operations for StageFlow
  */
 export class TimerManager<TStage extends string, TData = unknown> {
   private _timers: Map<string, any>;
   private _timerPaused: Map<string, boolean>;
-  private _timerStartTimes: Map<string, number>;
+  private _timerEntries: Map<string, TimerEntry<TStage>>;
   private _timerRemainingTimes: Map<string, number>;
   private _timerConfigs: Map<string, TimerConfig>;
   private _timerEventListeners: Set<TimerEventListener<TStage, TData>>;
+  private _enabled = true;
+  private scheduler: TimerScheduler = realScheduler;
 
   constructor() {
     this._timers = new Map();
     this._timerPaused = new Map();
-    this._timerStartTimes = new Map();
+    this._timerEntries = new Map();
     this._timerRemainingTimes = new Map();
     this._timerConfigs = new Map();
     this._timerEventListeners = new Set();
   }
 
+  /**
+   * Clears every timer and stops new ones from being scheduled
+   *
+   * Used when replaying an event log, which feeds recorded timer firings instead.
+   */
+  disable(): void {
+    this._enabled = false;
+    this.clearAllTimers();
+  }
+
+  /**
+   * Schedules timers on the given scheduler instead of the global timer functions
+   *
+   * Used by forked engines, whose timers only fire when their virtual time advances.
+   */
+  setScheduler(scheduler: TimerScheduler): void {
+    this.clearAllTimers();
+    this.scheduler = scheduler;
+  }
+
   /**
    * Sets up automatic transitions with timers for a stage
    */
@@ -45,13 +96,17 @@ export class TimerManager<TStage extends string, TData = unknown> {
     stage: TStage,
     stageConfig: StageConfig<TStage, TData>,
     executeTransition: (transition: Transition<TStage, TData>) => Promise<void>,
-    getCurrentStage: () => TStage,
+    isStageActive: (stage: TStage) => boolean,
     isStarted: () => boolean,
     isTransitioning: () => boolean,
     getCurrentData: () => TData | undefined
   ): void {
     // Clear existing timers for this stage first
     this.clearStageTimers(stage);
+
+    if (!this._enabled) {
+      return;
+    }
     
     // Sort transitions by priority (shorter duration = higher priority by default)
     const timerTransitions = stageConfig.transitions
@@ -69,41 +124,38 @@ export class TimerManager<TStage extends string, TData = unknown> {
       if (transition.after && transition.after > 0) {
         const timerId = `${stage}-${transition.target}-${transition.after}`;
         
-        // Store timer start time and configuration
-        const startTime = Date.now();
-        this._timerStartTimes.set(timerId, startTime);
-        this._timerConfigs.set(timerId, {
+        // Store what the timer was armed for and its configuration
+        const entry: TimerEntry<TStage> = {
+          stage,
+          target: transition.target,
+          duration: transition.after,
+          startedAt: this.scheduler.now()
+        };
+        const config: TimerConfig = {
           duration: transition.after || 0,
           id: timerId
-        });
+        };
+        this._timerEntries.set(timerId, entry);
+        this._timerConfigs.set(timerId, config);
         
         // Store the timer reference
-        this._timers.set(timerId, setTimeout(async () => {
+        this._timers.set(timerId, this.scheduler.setTimeout(async () => {
           try {
             // Check if timer is still valid (not cleared) and conditions are met
-            const currentStage = getCurrentStage();
             const isEngineStarted = isStarted();
             const isCurrentlyTransitioning = isTransitioning();
-            const stageMatches = currentStage === stage;
+            const stageMatches = isStageActive(stage);
             const shouldTransition = this._timers.has(timerId) && isEngineStarted && stageMatches && !isCurrentlyTransitioning;
             
             if (!shouldTransition) {
               // Clean up timer references even when conditions are not met
-              this._timers.delete(timerId);
-              this._timerPaused.delete(timerId);
-              this._timerStartTimes.delete(timerId);
-              this._timerRemainingTimes.delete(timerId);
-              this._timerConfigs.delete(timerId);
+              this._forgetTimer(timerId);
               return;
             }
             
-            // Additional safety check: ensure we're still in the expected stage
-            if (getCurrentStage() !== stage) {
-              this._timers.delete(timerId);
-              this._timerPaused.delete(timerId);
-              this._timerStartTimes.delete(timerId);
-              this._timerRemainingTimes.delete(timerId);
-              this._timerConfigs.delete(timerId);
+            // Additional safety check: ensure the stage is still active
+            if (!isStageActive(stage)) {
+              this._forgetTimer(timerId);
               return;
             }
             
@@ -117,14 +169,10 @@ export class TimerManager<TStage extends string, TData = unknown> {
             }
           } catch (error) {
             // Handle timer-based transition errors with retry logic
-            await this._handleTimerError(timerId, transition, error, executeTransition, getCurrentStage, isStarted, isTransitioning, getCurrentData);
+            await this._handleTimerError(timerId, entry, config, transition, error, executeTransition, isStageActive, isStarted, isTransitioning, getCurrentData);
           } finally {
             // Clean up the timer reference
-            this._timers.delete(timerId);
-            this._timerPaused.delete(timerId);
-            this._timerStartTimes.delete(timerId);
-            this._timerRemainingTimes.delete(timerId);
-            this._timerConfigs.delete(timerId);
+            this._forgetTimer(timerId);
             // Emit timer completed event
             this._emitTimerEvent({
               type: 'timer:completed',
@@ -132,7 +180,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
               stage,
               target: transition.target,
               duration: transition.after || 0,
-              timestamp: Date.now(),
+              timestamp: this.scheduler.now(),
               data: getCurrentData()
             });
           }
@@ -148,18 +196,14 @@ export class TimerManager<TStage extends string, TData = unknown> {
     const timersToDelete: string[] = [];
     
     for (const [timerId, timer] of this._timers.entries()) {
-      if (timerId.startsWith(`${stage}-`)) {
-        clearTimeout(timer);
+      if (this._isStageTimer(timerId, stage)) {
+        this.scheduler.clearTimeout(timer);
         timersToDelete.push(timerId);
       }
     }
 
     timersToDelete.forEach(timerId => {
-      this._timers.delete(timerId);
-      this._timerPaused.delete(timerId);
-      this._timerStartTimes.delete(timerId);
-      this._timerRemainingTimes.delete(timerId);
-      this._timerConfigs.delete(timerId);
+      this._forgetTimer(timerId);
     });
   }
 
@@ -168,36 +212,29 @@ export class TimerManager<TStage extends string, TData = unknown> {
    */
   pauseTimers(currentStage: TStage, getCurrentData: () => TData | undefined): void {
     for (const [timerId, timer] of this._timers.entries()) {
-      if (timerId.startsWith(`${currentStage}-`)) {
-        clearTimeout(timer);
+      const entry = this._timerEntries.get(timerId);
+      if (entry && entry.stage === currentStage) {
+        this.scheduler.clearTimeout(timer);
         this._timers.delete(timerId); // Remove from active timers
         this._timerPaused.set(timerId, true);
         
         // Calculate remaining time
-        const startTime = this._timerStartTimes.get(timerId) || 0;
-        const elapsed = Date.now() - startTime;
-        const originalDuration = parseInt(timerId.split('-').pop() || '0');
-        const remaining = Math.max(0, originalDuration - elapsed);
+        const elapsed = this.scheduler.now() - entry.startedAt;
+        const remaining = Math.max(0, entry.duration - elapsed);
         
         this._timerRemainingTimes.set(timerId, remaining);
         
         // Emit timer paused event
-        const parts = timerId.split('-');
-        if (parts.length >= 3) {
-          const target = parts[1] as TStage;
-          const duration = parseInt(parts[2]);
-          
-          this._emitTimerEvent({
-            type: 'timer:paused',
-            timerId,
-            stage: currentStage,
-            target,
-            duration,
-            remainingTime: remaining,
-            timestamp: Date.now(),
-            data: getCurrentData()
-          });
-        }
+        this._emitTimerEvent({
+          type: 'timer:paused',
+          timerId,
+          stage: currentStage,
+          target: entry.target,
+          duration: entry.duration,
+          remainingTime: remaining,
+          timestamp: this.scheduler.now(),
+          data: getCurrentData()
+        });
       }
     }
   }
@@ -209,11 +246,15 @@ export class TimerManager<TStage extends string, TData = unknown> {
     currentStage: TStage,
     stageConfig: StageConfig<TStage, TData>,
     executeTransition: (transition: Transition<TStage, TData>) => Promise<void>,
-    getCurrentStage: () => TStage,
+    isStageActive: (stage: TStage) => boolean,
     isStarted: () => boolean,
     isTransitioning: () => boolean,
     getCurrentData: () => TData | undefined
   ): void {
+    if (!this._enabled) {
+      return;
+    }
+
     for (const transition of stageConfig.transitions) {
       if (transition.after && transition.after > 0) {
         const timerId = `${currentStage}-${transition.target}-${transition.after}`;
@@ -222,26 +263,27 @@ export class TimerManager<TStage extends string, TData = unknown> {
           const remaining = this._timerRemainingTimes.get(timerId) || transition.after;
           
           if (remaining > 0) {
-            const timer = setTimeout(async () => {
+            const timer = this.scheduler.setTimeout(async () => {
               try {
                 // Check if timer is still valid (not cleared) and conditions are met
-                if (this._timers.has(timerId) && isStarted() && getCurrentStage() === currentStage && !isTransitioning()) {
+                if (this._timers.has(timerId) && isStarted() && isStageActive(currentStage) && !isTransitioning()) {
                   await executeTransition(transition);
                 }
               } catch (error) {
                 console.error('Timer-based transition failed:', error);
               } finally {
-                this._timers.delete(timerId);
-                this._timerPaused.delete(timerId);
-                this._timerStartTimes.delete(timerId);
-                this._timerRemainingTimes.delete(timerId);
-                this._timerConfigs.delete(timerId);
+                this._forgetTimer(timerId);
               }
             }, remaining);
             
             this._timers.set(timerId, timer);
             // Adjust start time to account for the remaining time
-            this._timerStartTimes.set(timerId, Date.now() - (transition.after - remaining));
+            this._timerEntries.set(timerId, {
+              stage: currentStage,
+              target: transition.target,
+              duration: transition.after,
+              startedAt: this.scheduler.now() - (transition.after - remaining)
+            });
             this._timerPaused.delete(timerId);
             
             // Emit timer resumed event
@@ -252,7 +294,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
               target: transition.target,
               duration: transition.after || 0,
               remainingTime: remaining,
-              timestamp: Date.now(),
+              timestamp: this.scheduler.now(),
               data: getCurrentData()
             });
           }
@@ -268,7 +310,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
     currentStage: TStage,
     stageConfig: StageConfig<TStage, TData>,
     executeTransition: (transition: Transition<TStage, TData>) => Promise<void>,
-    getCurrentStage: () => TStage,
+    isStageActive: (stage: TStage) => boolean,
     isStarted: () => boolean,
     isTransitioning: () => boolean,
     getCurrentData: () => TData | undefined
@@ -279,37 +321,31 @@ export class TimerManager<TStage extends string, TData = unknown> {
     // Clear any remaining timer state for this stage
     const timersToDelete: string[] = [];
     for (const [timerId] of this._timerPaused.entries()) {
-      if (timerId.startsWith(`${currentStage}-`)) {
+      if (this._isStageTimer(timerId, currentStage)) {
         timersToDelete.push(timerId);
       }
     }
     
     timersToDelete.forEach(timerId => {
-      this._timerPaused.delete(timerId);
-      this._timerStartTimes.delete(timerId);
-      this._timerRemainingTimes.delete(timerId);
-      this._timerConfigs.delete(timerId);
+      const entry = this._timerEntries.get(timerId);
+      this._forgetTimer(timerId);
       
       // Emit timer reset event
-      const parts = timerId.split('-');
-      if (parts.length >= 3) {
-        const target = parts[1] as TStage;
-        const duration = parseInt(parts[2]);
-        
+      if (entry) {
         this._emitTimerEvent({
           type: 'timer:reset',
           timerId,
           stage: currentStage,
-          target,
-          duration,
-          timestamp: Date.now(),
+          target: entry.target,
+          duration: entry.duration,
+          timestamp: this.scheduler.now(),
           data: getCurrentData()
         });
       }
     });
     
     // Setup new timers with original duration
-    this.setupStageTimers(currentStage, stageConfig, executeTransition, getCurrentStage, isStarted, isTransitioning, getCurrentData);
+    this.setupStageTimers(currentStage, stageConfig, executeTransition, isStageActive, isStarted, isTransitioning, getCurrentData);
   }
 
   /**
@@ -320,7 +356,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
     
     // Check paused timers
     for (const [timerId, isPaused] of this._timerPaused.entries()) {
-      if (timerId.startsWith(`${currentStage}-`) && isPaused) {
+      if (this._isStageTimer(timerId, currentStage) && isPaused) {
         const remaining = this._timerRemainingTimes.get(timerId) || 0;
         minRemaining = Math.min(minRemaining, remaining);
       }
@@ -328,11 +364,10 @@ export class TimerManager<TStage extends string, TData = unknown> {
     
     // Check active timers (only if not paused)
     for (const [timerId, _timer] of this._timers.entries()) {
-      if (timerId.startsWith(`${currentStage}-`) && !this._timerPaused.get(timerId)) {
-        const startTime = this._timerStartTimes.get(timerId) || 0;
-        const elapsed = Date.now() - startTime;
-        const originalDuration = parseInt(timerId.split('-').pop() || '0');
-        const remaining = Math.max(0, originalDuration - elapsed);
+      const entry = this._timerEntries.get(timerId);
+      if (entry && entry.stage === currentStage && !this._timerPaused.get(timerId)) {
+        const elapsed = this.scheduler.now() - entry.startedAt;
+        const remaining = Math.max(0, entry.duration - elapsed);
         minRemaining = Math.min(minRemaining, remaining);
       }
     }
@@ -345,7 +380,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
    */
   areTimersPaused(currentStage: TStage): boolean {
     for (const [timerId, isPaused] of this._timerPaused.entries()) {
-      if (timerId.startsWith(`${currentStage}-`) && isPaused) {
+      if (this._isStageTimer(timerId, currentStage) && isPaused) {
         return true;
       }
     }
@@ -371,17 +406,13 @@ export class TimerManager<TStage extends string, TData = unknown> {
     const timerStates: TimerState[] = [];
     
     for (const [timerId, _timer] of this._timers.entries()) {
-      const parts = timerId.split('-');
-      if (parts.length >= 3) {
-        const stage = parts[0] as TStage;
-        const target = parts[1] as TStage;
-        const duration = parseInt(parts[2]);
-        
-        const startTime = this._timerStartTimes.get(timerId) || 0;
+      const entry = this._timerEntries.get(timerId);
+      if (entry) {
+        const { stage, target, duration, startedAt: startTime } = entry;
         const isPaused = this._timerPaused.get(timerId) || false;
         const remainingTime = isPaused 
           ? this._timerRemainingTimes.get(timerId) || 0
-          : Math.max(0, duration - (Date.now() - startTime));
+          : Math.max(0, duration - (this.scheduler.now() - startTime));
         
         const config = this._timerConfigs.get(timerId) || {
           duration,
@@ -428,26 +459,19 @@ export class TimerManager<TStage extends string, TData = unknown> {
       ? this._timerRemainingTimes.get(timerId) || 0
       : 0;
     
-    this._timerPaused.delete(timerId);
-    this._timerStartTimes.delete(timerId);
-    this._timerRemainingTimes.delete(timerId);
-    this._timerConfigs.delete(timerId);
+    const entry = this._timerEntries.get(timerId);
+    this._forgetTimer(timerId);
 
     // Emit timer cancelled event
-    const parts = timerId.split('-');
-    if (parts.length >= 3) {
-      const stage = parts[0] as TStage;
-      const target = parts[1] as TStage;
-      const duration = parseInt(parts[2]);
-      
+    if (entry) {
       this._emitTimerEvent({
         type: 'timer:cancelled',
         timerId,
-        stage,
-        target,
-        duration,
+        stage: entry.stage,
+        target: entry.target,
+        duration: entry.duration,
         remainingTime,
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
         data: getCurrentData()
       });
     }
@@ -471,12 +495,95 @@ export class TimerManager<TStage extends string, TData = unknown> {
         startTime: timer.startTime,
         config: timer.config
       })),
-      timestamp: Date.now()
+      timestamp: this.scheduler.now()
     };
     
     return JSON.stringify(serializedState);
   }
 
+  /**
+   * Gets the running and paused timers for an engine snapshot
+   */
+  getTimerSnapshots(): TimerSnapshot<TStage>[] {
+    const snapshots: TimerSnapshot<TStage>[] = this.getActiveTimers().map(timer => ({
+      stage: timer.stage as TStage,
+      target: timer.target as TStage,
+      duration: timer.duration,
+      remainingTime: timer.remainingTime,
+      isPaused: false
+    }));
+
+    // Paused timers are no longer scheduled, only their remaining time is kept
+    for (const [timerId, isPaused] of this._timerPaused.entries()) {
+      const entry = this._timerEntries.get(timerId);
+      if (isPaused && !this._timers.has(timerId) && entry) {
+        snapshots.push({
+          stage: entry.stage,
+          target: entry.target,
+          duration: entry.duration,
+          remainingTime: this._timerRemainingTimes.get(timerId) || 0,
+          isPaused: true
+        });
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Re-arms timers captured by getTimerSnapshots() with the time they had left
+   *
+   * Timers whose transition no longer exists in the stage configuration are skipped.
+   */
+  restoreTimers(
+    timers: TimerSnapshot<TStage>[],
+    getStageConfig: (stage: TStage) => StageConfig<TStage, TData> | undefined,
+    executeTransition: (transition: Transition<TStage, TData>) => Promise<void>,
+    isStageActive: (stage: TStage) => boolean,
+    isStarted: () => boolean,
+    isTransitioning: () => boolean
+  ): void {
+    if (!this._enabled) {
+      return;
+    }
+
+    for (const timer of timers) {
+      const transition = getStageConfig(timer.stage)?.transitions.find(t =>
+        t.target === timer.target && t.after === timer.duration
+      );
+      if (!transition) {
+        continue;
+      }
+
+      const timerId = `${timer.stage}-${timer.target}-${timer.duration}`;
+      this._timerConfigs.set(timerId, { duration: timer.duration, id: timerId });
+      this._timerEntries.set(timerId, {
+        stage: timer.stage,
+        target: timer.target,
+        duration: timer.duration,
+        startedAt: this.scheduler.now() - (timer.duration - timer.remainingTime)
+      });
+
+      if (timer.isPaused) {
+        this._timerPaused.set(timerId, true);
+        this._timerRemainingTimes.set(timerId, timer.remainingTime);
+        continue;
+      }
+
+      this._timers.set(timerId, this.scheduler.setTimeout(async () => {
+        try {
+          if (this._timers.has(timerId) && isStarted() && isStageActive(timer.stage) && !isTransitioning()) {
+            await executeTransition(transition);
+          }
+        } catch (error) {
+          console.error('Timer-based transition failed:', error);
+        } finally {
+          this._forgetTimer(timerId);
+        }
+      }, timer.remainingTime));
+    }
+  }
+
   /**
    * Restores timer state from serialized data
    */
@@ -490,7 +597,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
   ): boolean {
     try {
       const state = JSON.parse(serializedState);
-      const currentTime = Date.now();
+      const currentTime = this.scheduler.now();
       const timeDiff = currentTime - state.timestamp;
       
       // Clear existing timers
@@ -502,7 +609,7 @@ export class TimerManager<TStage extends string, TData = unknown> {
           const adjustedRemainingTime = Math.max(0, timerData.remainingTime - timeDiff);
           
           if (adjustedRemainingTime > 0) {
-            const timer = setTimeout(async () => {
+            const timer = this.scheduler.setTimeout(async () => {
               try {
                 if (isStarted() && currentStage === timerData.stage && !isTransitioning()) {
                   // Find the corresponding transition
@@ -518,22 +625,23 @@ export class TimerManager<TStage extends string, TData = unknown> {
               } catch (error) {
                 console.error('Restored timer execution failed:', error);
               } finally {
-                this._timers.delete(timerData.id);
-                this._timerPaused.delete(timerData.id);
-                this._timerStartTimes.delete(timerData.id);
-                this._timerRemainingTimes.delete(timerData.id);
-                this._timerConfigs.delete(timerData.id);
+                this._forgetTimer(timerData.id);
               }
             }, adjustedRemainingTime);
             
             this._timers.set(timerData.id, timer);
-            this._timerStartTimes.set(timerData.id, currentTime - (timerData.duration - adjustedRemainingTime));
+            this._timerEntries.set(timerData.id, {
+              stage: timerData.stage,
+              target: timerData.target,
+              duration: timerData.duration,
+              startedAt: currentTime - (timerData.duration - adjustedRemainingTime)
+            });
             this._timerPaused.set(timerData.id, timerData.isPaused);
             this._timerRemainingTimes.set(timerData.id, adjustedRemainingTime);
             this._timerConfigs.set(timerData.id, timerData.config);
             
             if (timerData.isPaused) {
-              clearTimeout(timer);
+              this.scheduler.clearTimeout(timer);
               this._timers.delete(timerData.id);
             }
           }
@@ -552,15 +660,33 @@ export class TimerManager<TStage extends string, TData = unknown> {
    */
   clearAllTimers(): void {
     for (const [_timerId, timer] of this._timers.entries()) {
-      clearTimeout(timer);
+      this.scheduler.clearTimeout(timer);
     }
     this._timers.clear();
     this._timerPaused.clear();
-    this._timerStartTimes.clear();
+    this._timerEntries.clear();
     this._timerRemainingTimes.clear();
     this._timerConfigs.clear();
   }
 
+  /**
+   * Checks whether a timer was armed by the given stage
+   */
+  private _isStageTimer(timerId: string, stage: TStage): boolean {
+    return this._timerEntries.get(timerId)?.stage === stage;
+  }
+
+  /**
+   * Drops a timer and everything tracked about it
+   */
+  private _forgetTimer(timerId: string): void {
+    this._timers.delete(timerId);
+    this._timerPaused.delete(timerId);
+    this._timerEntries.delete(timerId);
+    this._timerRemainingTimes.delete(timerId);
+    this._timerConfigs.delete(timerId);
+  }
+
   /**
    * Emits a timer event to all listeners
    */
@@ -578,63 +704,57 @@ export class TimerManager<TStage extends string, TData = unknown> {
 
   /**
    * Handles timer execution errors with retry logic
+   *
+   * The timer is forgotten once its callback settles, so the entry and config
+   * captured when it was armed are passed along and carry the retry count.
    */
   private async _handleTimerError(
     timerId: string, 
+    entry: TimerEntry<TStage>,
+    config: TimerConfig,
     transition: Transition<TStage, TData>, 
     error: unknown,
     executeTransition: (transition: Transition<TStage, TData>) => Promise<void>,
-    getCurrentStage: () => TStage,
+    isStageActive: (stage: TStage) => boolean,
     isStarted: () => boolean,
     isTransitioning: () => boolean,
     getCurrentData: () => TData | undefined
   ): Promise<void> {
-    const config = this._timerConfigs.get(timerId);
-    const maxRetries = config?.metadata?.maxRetries as number || 3;
-    const currentRetries = config?.metadata?.retryCount as number || 0;
+    const maxRetries = config.metadata?.maxRetries as number || 3;
+    const currentRetries = config.metadata?.retryCount as number || 0;
     
     console.error(`Timer-based transition failed (attempt ${currentRetries + 1}/${maxRetries}):`, error);
     
     if (currentRetries < maxRetries) {
       // Update retry count
-      if (config) {
-        config.metadata = {
-          ...config.metadata,
-          retryCount: currentRetries + 1
-        };
-        this._timerConfigs.set(timerId, config);
-      }
+      config.metadata = {
+        ...config.metadata,
+        retryCount: currentRetries + 1
+      };
       
       // Retry after a short delay
       const retryDelay = Math.min(1000 * Math.pow(2, currentRetries), 10000); // Exponential backoff, max 10s
       
-      setTimeout(async () => {
+      this.scheduler.setTimeout(async () => {
         try {
-          if (isStarted() && getCurrentStage() === transition.target && !isTransitioning()) {
+          if (isStarted() && isStageActive(entry.stage) && !isTransitioning()) {
             await executeTransition(transition);
           }
         } catch (retryError) {
-          await this._handleTimerError(timerId, transition, retryError, executeTransition, getCurrentStage, isStarted, isTransitioning, getCurrentData);
+          await this._handleTimerError(timerId, entry, config, transition, retryError, executeTransition, isStageActive, isStarted, isTransitioning, getCurrentData);
         }
       }, retryDelay);
     } else {
       // Max retries reached, emit error event
-      const parts = timerId.split('-');
-      if (parts.length >= 3) {
-        const stage = parts[0] as TStage;
-        const target = parts[1] as TStage;
-        const duration = parseInt(parts[2]);
-        
-        this._emitTimerEvent({
-          type: 'timer:cancelled',
-          timerId,
-          stage,
-          target,
-          duration,
-          timestamp: Date.now(),
-          data: getCurrentData()
-        });
-      }
+      this._emitTimerEvent({
+        type: 'timer:cancelled',
+        timerId,
+        stage: entry.stage,
+        target: entry.target,
+        duration: entry.duration,
+        timestamp: this.scheduler.now(),
+        data: getCurrentData()
+      });
     }
   }
 }
\ No newline at end of file
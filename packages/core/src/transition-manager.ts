@@ -9,16 +9,70 @@
  */
 
 import {
+  StageFlowConfig,
   StageConfig,
   StageContext,
   Transition,
   TransitionContext,
-  StageFlowEngine
+  StageFlowEngine,
+  RegionStages,
+  TransitionCandidate,
+  TransitionResult,
+  TransitionAction,
+  NavigationPolicy,
+  StageHook,
+  TimerSnapshot,
+  TimeoutConfig,
+  TimeoutStep,
+  StageChange,
+  TransitionErrorPolicy,
+  TransitionFailure,
+  AvailableEvent,
+  ReachableStage
 } from './types/core';
 import { TransitionError, ConfigurationError } from './types/errors';
 import { RuntimeTypeChecker, DevelopmentWarnings } from './validation';
+import { StageHierarchy, TransitionSteps } from './stage-hierarchy';
+import { StateCheckpoint } from './state-manager';
 
+/**
+ * Transition selected (or not) for an event in one stage or region
+ */
+interface EventSelection<TStage extends string, TData> {
+  /** Stage the event was evaluated in */
+  from: TStage;
+  /** Region the stage belongs to, for events broadcast to parallel regions */
+  region?: TStage;
+  candidates: TransitionCandidate<TStage, TData>[];
+  selected?: Transition<TStage, TData>;
+}
 
+/**
+ * Options for executing a transition
+ */
+interface ExecuteTransitionOptions<TStage extends string, TData> {
+  /** Candidates the transition was selected from (its condition already passed) */
+  candidates?: TransitionCandidate<TStage, TData>[];
+  /** History entry being restored; moves the history cursor instead of adding an entry */
+  historyIndex?: number;
+  /** Error that triggered the transition (invoked service failures) */
+  error?: unknown;
+}
+
+/**
+ * Whether an error was raised by aborting the transition in flight (including timeouts)
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof TransitionError &&
+    (error.code === 'TRANSITION_ABORTED' || error.code === 'TRANSITION_TIMEOUT');
+}
+
+/**
+ * Whether an error was raised by a transition step running out of time
+ */
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof TransitionError && error.code === 'TRANSITION_TIMEOUT';
+}
 
 /**
  * Transition manager class that handles all transition operations for StageFlow
@@ -26,14 +80,29 @@ import { RuntimeTypeChecker, DevelopmentWarnings } from './validation';
 export class TransitionManager<TStage extends string, TData = unknown> {
   private stageMap: Map<TStage, StageConfig<TStage, TData>>;
   private runtimeTypeChecker: RuntimeTypeChecker<TStage, TData>;
+  private hierarchy: StageHierarchy<TStage, TData>;
+  private globalTransitions: Transition<TStage, TData>[];
+  private navigation: NavigationPolicy<TStage>;
+  private timeouts: TimeoutConfig<TStage>;
+  private errorPolicy: TransitionErrorPolicy<TStage>;
   private engine: StageFlowEngine<TStage, TData> | null = null;
 
   constructor(
     stageMap: Map<TStage, StageConfig<TStage, TData>>,
-    runtimeTypeChecker: RuntimeTypeChecker<TStage, TData>
+    runtimeTypeChecker: RuntimeTypeChecker<TStage, TData>,
+    hierarchy: StageHierarchy<TStage, TData>,
+    globalTransitions: Transition<TStage, TData>[] = [],
+    navigation: NavigationPolicy<TStage> = 'free',
+    timeouts: TimeoutConfig<TStage> = {},
+    errorPolicy: TransitionErrorPolicy<TStage> = 'rollback'
   ) {
     this.stageMap = stageMap;
     this.runtimeTypeChecker = runtimeTypeChecker;
+    this.hierarchy = hierarchy;
+    this.globalTransitions = globalTransitions;
+    this.navigation = navigation;
+    this.timeouts = timeouts;
+    this.errorPolicy = errorPolicy;
   }
 
   /**
@@ -43,29 +112,56 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     this.engine = engine;
   }
 
+  /**
+   * Takes the global transitions and transition policies of a changed configuration
+   */
+  updateConfig(config: StageFlowConfig<TStage, TData>): void {
+    this.globalTransitions = config.transitions ?? [];
+    this.navigation = config.navigation ?? 'free';
+    this.timeouts = config.timeouts ?? {};
+    this.errorPolicy = config.transitionErrorPolicy ?? 'rollback';
+  }
+
   /**
    * Finds a valid transition based on event or direct target
+   *
+   * The stage's own transitions are checked first, then those of its
+   * ancestors from the nearest parent outwards, stopping at `boundary` if given.
+   * Global transitions are checked last, unless the search is bounded.
    */
   findTransition(
     from: TStage,
     eventOrTarget?: string,
-    isDirect: boolean = false
+    isDirect: boolean = false,
+    boundary?: TStage
   ): Transition<TStage, TData> | null {
-    const stageConfig = this.stageMap.get(from);
-    if (!stageConfig) {
+    if (!this.stageMap.has(from)) {
       return null;
     }
 
-    for (const transition of stageConfig.transitions) {
-      if (isDirect) {
-        // For direct navigation (goTo), match by target
-        if (transition.target === eventOrTarget) {
-          return transition;
-        }
-      } else {
-        // For event-based transitions, match by event or no event specified
-        if (!eventOrTarget || transition.event === eventOrTarget) {
-          return transition;
+    const ancestors = this.hierarchy.getAncestors(from);
+    const searchPath = [from, ...ancestors];
+    if (boundary !== undefined && searchPath.includes(boundary)) {
+      searchPath.length = searchPath.indexOf(boundary) + 1;
+    }
+
+    const transitionLists = searchPath.map(stage => this.stageMap.get(stage)?.transitions || []);
+    if (boundary === undefined) {
+      transitionLists.push(this.globalTransitions);
+    }
+
+    for (const transitions of transitionLists) {
+      for (const transition of transitions) {
+        if (isDirect) {
+          // For direct navigation (goTo), match by target
+          if (transition.target === eventOrTarget) {
+            return transition;
+          }
+        } else {
+          // For event-based transitions, match by event or no event specified
+          if (!eventOrTarget || transition.event === eventOrTarget) {
+            return transition;
+          }
         }
       }
     }
@@ -85,9 +181,15 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     }
 
     try {
-      const result = await transition.condition(context);
+      const condition = transition.condition;
+      const result = await this.untilAborted(
+        this.withTimeout('condition', transition, 'condition', () => condition(context))
+      );
       return result;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       throw new TransitionError(
         `Condition evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { transition, context, error }
@@ -95,8 +197,61 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     }
   }
 
+  /**
+   * Finds every transition matching an event, in evaluation order
+   *
+   * The stage's own transitions come first in declaration order, then those of
+   * its ancestors from the nearest parent outwards, stopping at `boundary` if given.
+   * Global transitions come last and have no source stage; bounded searches
+   * (within a parallel region) leave them to the enclosing stages.
+   */
+  findCandidates(
+    from: TStage,
+    event: string,
+    boundary?: TStage
+  ): Array<{ transition: Transition<TStage, TData>; source?: TStage }> {
+    return this.collectTransitions(from, transition => transition.event === event, boundary);
+  }
+
+  /**
+   * Collects the transitions available from a stage that match a predicate, in evaluation order
+   */
+  private collectTransitions(
+    from: TStage,
+    matches: (transition: Transition<TStage, TData>) => boolean,
+    boundary?: TStage
+  ): Array<{ transition: Transition<TStage, TData>; source?: TStage }> {
+    if (!this.stageMap.has(from)) {
+      return [];
+    }
+
+    const searchPath = [from, ...this.hierarchy.getAncestors(from)];
+    if (boundary !== undefined && searchPath.includes(boundary)) {
+      searchPath.length = searchPath.indexOf(boundary) + 1;
+    }
+
+    const candidates: Array<{ transition: Transition<TStage, TData>; source?: TStage }> = searchPath.flatMap(stage =>
+      (this.stageMap.get(stage)?.transitions || [])
+        .filter(matches)
+        .map(transition => ({ transition, source: stage }))
+    );
+
+    if (boundary === undefined) {
+      candidates.push(
+        ...this.globalTransitions
+          .filter(matches)
+          .map(transition => ({ transition }))
+      );
+    }
+
+    return candidates;
+  }
+
   /**
    * Sends an event to trigger a stage transition
+   *
+   * Every matching transition is evaluated in order and the first one whose
+   * condition passes is taken. The result lists each candidate's outcome.
    */
   async send(
     event: string,
@@ -104,11 +259,13 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     currentStage?: TStage,
     isTransitioning?: boolean,
     isStarted?: boolean
-  ): Promise<void> {
+  ): Promise<TransitionResult<TStage, TData>> {
     if (!isStarted) {
       throw new TransitionError('Engine must be started before sending events');
     }
 
+    this.assertNotDone(currentStage);
+
     if (isTransitioning) {
       throw new TransitionError('Cannot send event while transition is in progress');
     }
@@ -122,19 +279,420 @@ export class TransitionManager<TStage extends string, TData = unknown> {
       throw new TransitionError('Event must be a non-empty string');
     }
 
-    const transition = this.findTransition(currentStage, event, false);
-    if (!transition) {
-      // No matching transition found - this is not an error, just ignore
+    // Conditions are evaluated as part of the transition
+    (this.engine as any)._setTransitioning(true);
+
+    let selections: Array<EventSelection<TStage, TData>>;
+    try {
+      selections = await this.selectEventTransitions(event, currentStage);
+    } catch (error) {
+      (this.engine as any)._setTransitioning(false);
+      await this.enterTimeoutStage(error);
+      throw error;
+    }
+
+    const candidates = selections.flatMap(selection => selection.candidates);
+    const taken = selections.filter(selection => selection.selected !== undefined);
+
+    if (taken.length === 0) {
+      (this.engine as any)._setTransitioning(false);
+      if (candidates.length === 0) {
+        (this.engine as any)._emit('eventIgnored', { event, stage: currentStage });
+      } else {
+        (this.engine as any)._emit('transitionRejected', { event, from: currentStage, candidates });
+      }
+      // No matching transition found (or every condition failed) - this is not an error, just ignore
       DevelopmentWarnings.warn(
-        `No transition found for event "${event}" in stage "${currentStage}"`,
+        candidates.length === 0
+          ? `No transition found for event "${event}" in stage "${currentStage}"`
+          : `No transition condition passed for event "${event}" in stage "${currentStage}"`,
         { currentStage, event }
       );
+      return { event, from: currentStage, to: currentStage, transitioned: false, candidates };
+    }
+
+    let failure: TransitionFailure<TStage> | undefined;
+    try {
+      for (const { from, region, selected } of taken) {
+        // An earlier region's transition may have left the parallel stage
+        if (region !== undefined && this.engine?.getRegionStages()[region] !== from) {
+          continue;
+        }
+        this.validateEventTransition(from, selected!, event, data);
+        failure = await this.executeTransition(selected!, data, event, from, { candidates }) ?? failure;
+      }
+    } catch (error) {
+      (this.engine as any)._setTransitioning(false);
+      throw error;
+    }
+
+    return {
+      event,
+      from: currentStage,
+      to: (this.engine as any).stateManager.getCurrentStage(),
+      transitioned: true,
+      selected: taken[0].selected,
+      candidates,
+      ...(failure ? { failure } : {})
+    };
+  }
+
+  /**
+   * Selects the transition taken for an event
+   *
+   * Each region of an active parallel stage evaluates the event first; the
+   * parallel stage and its ancestors only handle events no region takes.
+   */
+  private async selectEventTransitions(
+    event: string,
+    currentStage: TStage,
+    inspect: boolean = false
+  ): Promise<Array<EventSelection<TStage, TData>>> {
+    const context = inspect ? this.createInspectionContext() : this.createStageContext();
+    const selections: Array<EventSelection<TStage, TData>> = [];
+
+    const regionStages: RegionStages<TStage> = this.engine ? this.engine.getRegionStages() : {};
+    for (const region of Object.keys(regionStages) as TStage[]) {
+      const from = regionStages[region] as TStage;
+      selections.push({
+        from,
+        region,
+        ...await this.selectCandidate(this.findCandidates(from, event, region), context, inspect)
+      });
+    }
+
+    if (!selections.some(selection => selection.selected !== undefined)) {
+      selections.push({
+        from: currentStage,
+        ...await this.selectCandidate(this.findCandidates(currentStage, event), context, inspect)
+      });
+    }
+
+    return selections;
+  }
+
+  /**
+   * Evaluates candidates in order and selects the first whose condition passes
+   *
+   * With `inspect`, conditions are checked without the transition's signal and timeouts.
+   */
+  private async selectCandidate(
+    matches: Array<{ transition: Transition<TStage, TData>; source?: TStage }>,
+    context: StageContext<TStage, TData>,
+    inspect: boolean = false
+  ): Promise<{ candidates: TransitionCandidate<TStage, TData>[]; selected?: Transition<TStage, TData> }> {
+    const candidates: TransitionCandidate<TStage, TData>[] = [];
+    let selected: Transition<TStage, TData> | undefined;
+
+    for (const { transition, source } of matches) {
+      if (selected) {
+        candidates.push({ transition, source, status: 'skipped', reason: 'An earlier candidate was selected' });
+      } else if (await (inspect ? this.checkCondition(transition, context) : this.evaluateCondition(transition, context))) {
+        selected = transition;
+        candidates.push({ transition, source, status: 'selected' });
+      } else {
+        candidates.push({ transition, source, status: 'rejected', reason: 'Condition returned false' });
+      }
+    }
+
+    return { candidates, selected };
+  }
+
+  /**
+   * Whether sending an event would take a transition, without side effects
+   *
+   * Conditions are evaluated as send() would, and the data is checked against
+   * the target stage; nothing is entered, emitted or recorded.
+   */
+  async can(event: string, data: TData | undefined, currentStage: TStage): Promise<boolean> {
+    const selections = await this.selectEventTransitions(event, currentStage, true);
+    const taken = selections.filter(selection => selection.selected !== undefined);
+    if (taken.length === 0) {
+      return false;
+    }
+
+    try {
+      for (const { from, selected } of taken) {
+        this.validateEventTransition(from, selected!, event, data);
+      }
+    } catch (error) {
+      if (error instanceof TransitionError) {
+        return false;
+      }
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Lists the events the active stages handle, in evaluation order
+   */
+  async getAvailableEvents(currentStage: TStage): Promise<AvailableEvent<TStage>[]> {
+    const events = new Set<string>();
+    for (const { transition } of this.collectActiveTransitions(currentStage)) {
+      if (transition.event !== undefined) {
+        events.add(transition.event);
+      }
+    }
+
+    const available: AvailableEvent<TStage>[] = [];
+    for (const event of events) {
+      const selections = await this.selectEventTransitions(event, currentStage, true);
+      const taken = selections.find(selection => selection.selected !== undefined);
+      available.push(taken ? { event, target: taken.selected!.target, blocked: false } : { event, blocked: true });
+    }
+    return available;
+  }
+
+  /**
+   * Lists the stages one declared transition away from the active stages
+   */
+  async getReachableStages(currentStage: TStage): Promise<ReachableStage<TStage>[]> {
+    const context = this.createInspectionContext();
+    const reachable = new Map<TStage, ReachableStage<TStage>>();
+
+    for (const { transition } of this.collectActiveTransitions(currentStage)) {
+      const passed = await this.checkCondition(transition, context);
+      const entry = reachable.get(transition.target) ?? { stage: transition.target, events: [], blocked: true };
+      if (transition.event !== undefined && !entry.events.includes(transition.event)) {
+        entry.events.push(transition.event);
+      }
+      entry.blocked = entry.blocked && !passed;
+      reachable.set(transition.target, entry);
+    }
+    return [...reachable.values()];
+  }
+
+  /**
+   * Collects the transitions of every active stage: each region's stages, then
+   * the current stage with its ancestors and the global transitions
+   */
+  private collectActiveTransitions(
+    currentStage: TStage
+  ): Array<{ transition: Transition<TStage, TData>; source?: TStage }> {
+    const regionStages: RegionStages<TStage> = this.engine ? this.engine.getRegionStages() : {};
+    return [
+      ...(Object.keys(regionStages) as TStage[]).flatMap(region =>
+        this.collectTransitions(regionStages[region] as TStage, () => true, region)
+      ),
+      ...this.collectTransitions(currentStage, () => true)
+    ];
+  }
+
+  /**
+   * Evaluates a condition for introspection: no signal, timeouts or abort handling
+   */
+  private async checkCondition(
+    transition: Transition<TStage, TData>,
+    context: StageContext<TStage, TData>
+  ): Promise<boolean> {
+    if (!transition.condition) {
+      return true;
+    }
+
+    try {
+      return await transition.condition(context);
+    } catch (error) {
+      throw new TransitionError(
+        `Condition evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { transition, context, error }
+      );
+    }
+  }
+
+  /**
+   * Runs a stage's onEnter or onExit hook, reporting a failure as a hookError event
+   */
+  private async runStageHook(
+    stage: TStage,
+    hook: 'onEnter' | 'onExit',
+    run: StageHook<TStage, TData>,
+    context: StageContext<TStage, TData>,
+    transition: Transition<TStage, TData>
+  ): Promise<void> {
+    try {
+      await this.untilAborted(
+        this.withTimeout('hooks', transition, `${hook} hook of "${stage}"`, () => run(context))
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        (this.engine as any)._emit('hookError', { stage, hook, error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Undoes a transition aborted part way through
+   *
+   * The stage, data and history are restored from the checkpoint, the exited
+   * stages get their timers (with the time they had left) and services back,
+   * and anything already started for the entered stages is stopped.
+   */
+  private rollback(
+    checkpoint: StateCheckpoint<TStage, TData>,
+    steps: TransitionSteps<TStage>,
+    exitedTimers: TimerSnapshot<TStage>[]
+  ): void {
+    for (const stage of steps.entry) {
+      (this.engine as any)._clearStageTimers(stage);
+      (this.engine as any)._stopInvoke(stage);
+    }
+    (this.engine as any).stateManager.restoreCheckpoint(checkpoint);
+    (this.engine as any)._restoreTimers(exitedTimers);
+    (this.engine as any)._startInvokes(steps.exit);
+  }
+
+  /**
+   * Throws the abort reason once the transition in flight has been aborted
+   */
+  private throwIfAborted(): void {
+    const signal: AbortSignal | undefined = (this.engine as any)?._getTransitionSignal();
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+  }
+
+  /**
+   * Starts a transition step, aborting the transition if it outlasts its time limit
+   *
+   * The transition's own timeout takes precedence over the configured default for
+   * the step; steps without a time limit are returned as they are.
+   */
+  private withTimeout<T>(
+    step: TimeoutStep,
+    transition: Transition<TStage, TData>,
+    description: string,
+    run: () => T | Promise<T>
+  ): T | Promise<T> {
+    const timeout = transition.timeout ?? this.timeouts[step];
+    if (timeout === undefined) {
+      return run();
+    }
+
+    const timer = setTimeout(() => {
+      (this.engine as any)._abortTransition(new TransitionError(
+        `Transition to "${transition.target}": ${description} timed out after ${timeout}ms`,
+        { to: transition.target, step, timeout },
+        'TRANSITION_TIMEOUT'
+      ));
+    }, timeout);
+
+    return this.untilAborted(new Promise<T>(resolve => resolve(run()))).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Enters the configured timeout stage after a transition ran out of time
+   */
+  private async enterTimeoutStage(error: unknown): Promise<void> {
+    const target = this.timeouts.target;
+    if (target === undefined || !isTimeoutError(error)) {
       return;
     }
 
-    // Runtime validation for the target stage
+    const from: TStage = (this.engine as any).stateManager.getCurrentStage();
+    await this.executeTransition({ target }, undefined, undefined, from, { error });
+  }
+
+  /**
+   * Settles with a transition step, or rejects as soon as the transition is aborted
+   */
+  private untilAborted<T>(step: T | Promise<T>): Promise<T> {
+    const signal: AbortSignal | undefined = (this.engine as any)?._getTransitionSignal();
+    if (!signal) {
+      return Promise.resolve(step);
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      Promise.resolve(step).then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  /**
+   * Applies transition actions in order and validates the resulting data
+   */
+  private applyActions(
+    actions: TransitionAction<TStage, TData>[],
+    transitionContext: TransitionContext<TStage, TData>
+  ): TData {
+    const payload = transitionContext.data;
+    let data: TData | undefined = (this.engine as any)._getCurrentData();
+
+    for (const action of actions) {
+      try {
+        data = action(data, payload, transitionContext);
+      } catch (error) {
+        throw new TransitionError(
+          `Transition action failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { from: transitionContext.from, to: transitionContext.to, error }
+        );
+      }
+    }
+
     try {
-      this.runtimeTypeChecker.validateTransition(currentStage, transition.target, event);
+      this.runtimeTypeChecker.validateStageData(transitionContext.to, data);
+    } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw new TransitionError(error.message, error.context);
+      }
+      throw error;
+    }
+
+    return data as TData;
+  }
+
+  /**
+   * Creates a stage context whose send and goTo go through the engine
+   */
+  private createStageContext(): StageContext<TStage, TData> {
+    const context = (this.engine as any).stateManager.createStageContext();
+    // Override send and goTo methods with engine methods
+    context.send = (this.engine as any)._contextSend.bind(this.engine);
+    context.goTo = (this.engine as any)._contextGoTo.bind(this.engine);
+    context.signal = (this.engine as any)._getTransitionSignal();
+    return context;
+  }
+
+  /**
+   * Creates a stage context for conditions evaluated by introspection, which may not send or navigate
+   */
+  private createInspectionContext(): StageContext<TStage, TData> {
+    const context = (this.engine as any).stateManager.createStageContext();
+    context.send = () => Promise.reject(new TransitionError('Cannot send events while inspecting transitions'));
+    context.goTo = () => Promise.reject(new TransitionError('Cannot navigate while inspecting transitions'));
+    return context;
+  }
+
+  /**
+   * Rejects events and navigation once the flow has reached a final stage
+   */
+  private assertNotDone(currentStage?: TStage): void {
+    if (this.engine?.isDone()) {
+      throw new TransitionError(
+        `Stage "${currentStage}": the flow is done; reset the engine to continue`,
+        { stage: currentStage }
+      );
+    }
+  }
+
+  /**
+   * Runtime validation for an event-driven transition and its target stage
+   */
+  private validateEventTransition(
+    from: TStage,
+    transition: Transition<TStage, TData>,
+    event: string,
+    data?: TData
+  ): void {
+    try {
+      this.runtimeTypeChecker.validateTransition(from, transition.target, event);
       if (data !== undefined) {
         this.runtimeTypeChecker.validateStageData(transition.target, data);
       }
@@ -144,8 +702,6 @@ export class TransitionManager<TStage extends string, TData = unknown> {
       }
       throw error;
     }
-
-    await this.executeTransition(transition, data, event, currentStage);
   }
 
   /**
@@ -157,11 +713,13 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     currentStage?: TStage,
     isTransitioning?: boolean,
     isStarted?: boolean
-  ): Promise<void> {
+  ): Promise<TransitionResult<TStage, TData>> {
     if (!isStarted) {
       throw new TransitionError('Engine must be started before navigation');
     }
 
+    this.assertNotDone(currentStage);
+
     if (isTransitioning) {
       throw new TransitionError('Cannot navigate while transition is in progress');
     }
@@ -169,6 +727,7 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     if (!currentStage) {
       throw new TransitionError('Current stage is required');
     }
+    const from = currentStage;
 
     // Runtime validation - only validate stage existence and data, not transitions
     try {
@@ -189,12 +748,20 @@ export class TransitionManager<TStage extends string, TData = unknown> {
       throw error;
     }
 
+    // Navigating within a region of the active parallel stage starts from that
+    // region's current stage, leaving the other regions untouched
+    const region = this.hierarchy.getRegion(stage);
+    const regionStage = region !== undefined && this.engine ? this.engine.getRegionStages()[region] : undefined;
+    if (regionStage !== undefined) {
+      currentStage = regionStage;
+    }
+
     if (currentStage === stage) {
       // Already at target stage, just update data if provided
       if (data !== undefined && this.engine) {
         this.engine.setStageData(data);
       }
-      return;
+      return this.navigationResult(from, false, []);
     }
 
     // Check if target stage exists
@@ -203,6 +770,13 @@ export class TransitionManager<TStage extends string, TData = unknown> {
       throw new TransitionError(`Target stage "${stage}" does not exist`);
     }
 
+    // Restricted navigation only follows declared transitions
+    const policy = this.getNavigationPolicy(currentStage);
+    const allowsJump = policy === 'free' || (typeof policy === 'object' && policy.allowlist.includes(stage));
+    if (!allowsJump) {
+      return this.goToDeclared(stage, data, currentStage, from);
+    }
+
     const transition = this.findTransition(currentStage, stage, true);
     if (!transition) {
       // No explicit transition defined, create a direct transition
@@ -212,10 +786,134 @@ export class TransitionManager<TStage extends string, TData = unknown> {
         condition: undefined,
         middleware: []
       };
-      await this.executeTransition(directTransition, data, undefined, currentStage);
-    } else {
-      await this.executeTransition(transition, data, undefined, currentStage);
+      const failure = await this.executeTransition(directTransition, data, undefined, currentStage);
+      return this.navigationResult(from, true, [], undefined, failure);
+    }
+
+    // A declared transition whose condition fails is rejected without throwing
+    const started = (this.engine as any).transitionCount;
+    const failure = await this.executeTransition(transition, data, undefined, currentStage);
+    const transitioned = (this.engine as any).transitionCount !== started;
+    const source = this.hierarchy.getTransitionSource(transition);
+    const candidate: TransitionCandidate<TStage, TData> = transitioned
+      ? { transition, source, status: 'selected' }
+      : { transition, source, status: 'rejected', reason: 'Condition returned false' };
+    return this.navigationResult(from, transitioned, [candidate], transitioned ? transition : undefined, failure);
+  }
+
+  /**
+   * Builds the result of goTo() or history navigation, which have no event
+   */
+  private navigationResult(
+    from: TStage,
+    transitioned: boolean,
+    candidates: TransitionCandidate<TStage, TData>[],
+    selected?: Transition<TStage, TData>,
+    failure?: TransitionFailure<TStage>
+  ): TransitionResult<TStage, TData> {
+    return {
+      from,
+      to: (this.engine as any).stateManager.getCurrentStage(),
+      transitioned,
+      ...(selected ? { selected } : {}),
+      candidates,
+      ...(failure ? { failure } : {})
+    };
+  }
+
+  /**
+   * Gets the navigation policy of a stage: its own, its nearest ancestor's, or the engine's
+   */
+  private getNavigationPolicy(stage: TStage): NavigationPolicy<TStage> {
+    for (const candidate of [stage, ...this.hierarchy.getAncestors(stage)]) {
+      const navigation = this.stageMap.get(candidate)?.navigation;
+      if (navigation !== undefined) {
+        return navigation;
+      }
+    }
+    return this.navigation;
+  }
+
+  /**
+   * Navigates through the first declared transition to the target whose condition passes
+   */
+  private async goToDeclared(
+    stage: TStage,
+    data: TData | undefined,
+    currentStage: TStage,
+    from: TStage
+  ): Promise<TransitionResult<TStage, TData>> {
+    const matches = this.collectTransitions(currentStage, transition => transition.target === stage);
+    if (matches.length === 0) {
+      throw new TransitionError(
+        `Stage "${currentStage}": navigation to "${stage}" is not allowed without a declared transition`,
+        { from: currentStage, to: stage },
+        'NAVIGATION_NOT_ALLOWED'
+      );
+    }
+
+    // Conditions are evaluated as part of the transition
+    (this.engine as any)._setTransitioning(true);
+
+    let selection: { candidates: TransitionCandidate<TStage, TData>[]; selected?: Transition<TStage, TData> };
+    try {
+      selection = await this.selectCandidate(matches, this.createStageContext());
+    } catch (error) {
+      (this.engine as any)._setTransitioning(false);
+      await this.enterTimeoutStage(error);
+      throw error;
+    }
+
+    const { candidates, selected } = selection;
+    if (!selected) {
+      (this.engine as any)._setTransitioning(false);
+      throw new TransitionError(
+        `Stage "${currentStage}": navigation to "${stage}" is not allowed because no transition condition passed`,
+        { from: currentStage, to: stage, candidates },
+        'NAVIGATION_NOT_ALLOWED'
+      );
+    }
+
+    const failure = await this.executeTransition(selected, data, undefined, currentStage, { candidates });
+    return this.navigationResult(from, true, candidates, selected, failure);
+  }
+
+  /**
+   * Navigates to a history entry, restoring the data it had
+   */
+  async navigateHistory(
+    index: number,
+    currentStage?: TStage,
+    isTransitioning?: boolean,
+    isStarted?: boolean
+  ): Promise<TransitionResult<TStage, TData>> {
+    if (!isStarted) {
+      throw new TransitionError('Engine must be started before navigation');
+    }
+
+    this.assertNotDone(currentStage);
+
+    if (isTransitioning) {
+      throw new TransitionError('Cannot navigate while transition is in progress');
     }
+
+    if (!currentStage) {
+      throw new TransitionError('Current stage is required');
+    }
+
+    const entry = (this.engine as any).stateManager.getHistory()[index];
+    if (!entry || !this.stageMap.has(entry.stage)) {
+      throw new TransitionError('No history entry to navigate to', { index });
+    }
+
+    const historyTransition: Transition<TStage, TData> = {
+      target: entry.stage,
+      event: `history-to-${entry.stage}`,
+      condition: undefined,
+      middleware: []
+    };
+    const failure = await this.executeTransition(historyTransition, entry.data, undefined, currentStage, { historyIndex: index });
+    return this.navigationResult(currentStage, true, [], undefined, failure);
   }
 
   /**
@@ -225,8 +923,10 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     transition: Transition<TStage, TData>,
     data?: TData,
     event?: string,
-    fromStage?: TStage
-  ): Promise<void> {
+    fromStage?: TStage,
+    options: ExecuteTransitionOptions<TStage, TData> = {}
+  ): Promise<TransitionFailure<TStage> | undefined> {
+    const { candidates, historyIndex } = options;
     if (!this.engine || !fromStage) {
       throw new TransitionError('Engine and fromStage are required for transition execution');
     }
@@ -236,18 +936,32 @@ export class TransitionManager<TStage extends string, TData = unknown> {
     // Set transitioning state
     (this.engine as any)._setTransitioning(true);
 
+    // State before the transition, restored if it fails while its target is entered
+    const checkpoint: StateCheckpoint<TStage, TData> = (this.engine as any).stateManager.checkpoint();
+    let steps: TransitionSteps<TStage> | undefined;
+    let change: Omit<StageChange<TStage, TData>, 'to' | 'data' | 'regions' | 'timestamp'> | undefined;
+    let exitedTimers: TimerSnapshot<TStage>[] = [];
+    let entering = false;
+
     try {
       // Create stage context for condition evaluation
-      const context = (this.engine as any).stateManager.createStageContext();
-      // Override send and goTo methods with engine methods
-      context.send = (this.engine as any).send.bind(this.engine);
-      context.goTo = (this.engine as any).goTo.bind(this.engine);
+      const context = this.createStageContext();
 
-      // Evaluate transition condition
-      const conditionMet = await this.evaluateCondition(transition, context);
+      // Evaluate transition condition (already done when selected from candidates)
+      const conditionMet = candidates !== undefined || await this.evaluateCondition(transition, context);
       if (!conditionMet) {
         (this.engine as any)._setTransitioning(false);
-        return;
+        (this.engine as any)._emit('transitionRejected', {
+          event,
+          from: fromStage,
+          candidates: [{
+            transition,
+            source: this.hierarchy.getTransitionSource(transition),
+            status: 'rejected',
+            reason: 'Condition returned false'
+          }]
+        });
+        return undefined;
       }
 
       // Create transition context for middleware and plugin hooks
@@ -256,7 +970,10 @@ export class TransitionManager<TStage extends string, TData = unknown> {
         to: toStage,
         event,
         data,
-        timestamp: Date.now(),
+        timestamp: (this.engine as any).clock.now(),
+        candidates,
+        error: options.error,
+        signal: (this.engine as any)._getTransitionSignal(),
         cancel: () => {
           throw new TransitionError('Transition cancelled');
         },
@@ -275,67 +992,226 @@ export class TransitionManager<TStage extends string, TData = unknown> {
       };
 
       // Execute middleware pipeline first
-      await (this.engine as any)._executeMiddlewarePipeline(transitionContext, transition);
+      await this.withTimeout('middleware', transition, 'middleware', () =>
+        (this.engine as any)._executeMiddlewarePipeline(transitionContext, transition)
+      );
+      this.throwIfAborted();
 
       // Execute beforeTransition plugin hooks
-      await (this.engine as any)._executePluginHooks('beforeTransition', transitionContext);
+      await this.withTimeout('pluginHooks', transition, 'plugin hook "beforeTransition"', () =>
+        (this.engine as any)._executePluginHooks('beforeTransition', transitionContext)
+      );
+      this.throwIfAborted();
 
       // Get stage configurations (use potentially modified target)
-      const fromStageConfig = this.stageMap.get(fromStage);
       const toStageConfig = this.stageMap.get(transitionContext.to);
 
       if (!toStageConfig) {
         throw new TransitionError(`Target stage configuration not found: ${transitionContext.to}`);
       }
 
+      // Derive the target data with transition actions before anything is exited
+      if (transition.actions && transition.actions.length > 0) {
+        transitionContext.data = this.applyActions(transition.actions, transitionContext);
+      }
+
+      // Work out which stages are left and entered; transitions inherited from a
+      // parent stage are taken from that parent
+      const configuration = (this.engine as any)._getActiveConfiguration();
+      change = {
+        kind: historyIndex !== undefined ? 'history' : 'transition',
+        from: configuration.current,
+        event,
+        previousData: (this.engine as any)._getCurrentData(),
+        transitionId: (this.engine as any)._nextTransitionId()
+      };
+      const source = this.hierarchy.getTransitionSource(transition);
+      steps = this.hierarchy.getTransitionSteps(
+        configuration,
+        source !== undefined && this.hierarchy.isActive(configuration, source) ? source : fromStage,
+        transitionContext.to
+      );
+      const nextStage: TStage = steps.configuration.current;
+      const nextStageConfig = this.stageMap.get(nextStage) ?? toStageConfig;
+
+      // Transitions between stages of a parallel stage's regions keep it active
+      const withinParallel = steps.configuration.regions !== undefined &&
+        !steps.exit.includes(nextStage) && !steps.entry.includes(nextStage);
+
       // Execute onStageExit plugin hooks
-      await (this.engine as any)._executePluginHooks('onStageExit', context);
+      await this.withTimeout('pluginHooks', transition, 'plugin hook "onStageExit"', () =>
+        (this.engine as any)._executePluginHooks('onStageExit', context)
+      );
+      this.throwIfAborted();
 
-      // Execute onExit hook for current stage
-      if (fromStageConfig?.onExit) {
-        await fromStageConfig.onExit(context);
+      // Execute onExit hooks from the innermost stage outwards
+      for (const stage of steps.exit) {
+        const stageConfig = this.stageMap.get(stage);
+        if (stageConfig?.onExit) {
+          await this.runStageHook(stage, 'onExit', stageConfig.onExit, context, transition);
+        }
       }
 
-      // Clear any existing timers for the current stage
-      (this.engine as any)._clearStageTimers(fromStage);
+      // Clear any existing timers and abort invoked services for the exited stages
+      const exited = steps.exit;
+      exitedTimers = (this.engine as any).timerManager.getTimerSnapshots()
+        .filter((snapshot: TimerSnapshot<TStage>) => exited.includes(snapshot.stage));
+      entering = true;
+      for (const stage of steps.exit) {
+        (this.engine as any)._clearStageTimers(stage);
+        (this.engine as any)._stopInvoke(stage);
+      }
 
-      // Update state (use potentially modified values)
-      (this.engine as any)._updateCurrentStage(transitionContext.to);
-      (this.engine as any)._updateStageData(transitionContext.data !== undefined ? transitionContext.data : toStageConfig.data);
+      // Update state (use potentially modified values); regions share the
+      // parallel stage's data, which is kept unless new data is provided
+      (this.engine as any)._updateActiveConfiguration(steps.configuration);
+      if (transitionContext.data !== undefined) {
+        (this.engine as any)._updateStageData(transitionContext.data);
+      } else if (!withinParallel) {
+        (this.engine as any)._updateStageData(
+          nextStageConfig.data !== undefined ? nextStageConfig.data : toStageConfig.data
+        );
+      }
 
-      // Add to history
-      (this.engine as any)._addToHistory(transitionContext.to, (this.engine as any)._getCurrentData());
+      // Add to history (history tracks the main stage, not individual regions);
+      // history navigation moves the cursor instead
+      if (historyIndex !== undefined) {
+        (this.engine as any).stateManager.setHistoryIndex(historyIndex);
+      } else if (!withinParallel) {
+        (this.engine as any)._addToHistory(nextStage, (this.engine as any)._getCurrentData());
+      }
 
       // Create new context for the target stage
       const newContext = (this.engine as any)._createStageContext();
 
-      // Execute onEnter hook for new stage
-      if (toStageConfig.onEnter) {
-        await toStageConfig.onEnter(newContext);
+      // Execute onEnter hooks from the outermost stage inwards
+      for (const stage of steps.entry) {
+        const stageConfig = this.stageMap.get(stage);
+        if (stageConfig?.onEnter) {
+          await this.runStageHook(stage, 'onEnter', stageConfig.onEnter, newContext, transition);
+        }
       }
 
       // Execute onStageEnter plugin hooks
-      await (this.engine as any)._executePluginHooks('onStageEnter', newContext);
+      await this.withTimeout('pluginHooks', transition, 'plugin hook "onStageEnter"', () =>
+        (this.engine as any)._executePluginHooks('onStageEnter', newContext)
+      );
+      this.throwIfAborted();
 
       // Execute afterTransition plugin hooks
-      await (this.engine as any)._executePluginHooks('afterTransition', transitionContext);
-
-      // Set up automatic transitions with timers
-      (this.engine as any)._setupStageTimers(
-        transitionContext.to,
-        toStageConfig
+      await this.withTimeout('pluginHooks', transition, 'plugin hook "afterTransition"', () =>
+        (this.engine as any)._executePluginHooks('afterTransition', transitionContext)
       );
+      this.throwIfAborted();
 
-      // Notify subscribers
-      (this.engine as any)._notifySubscribers(transitionContext.to, (this.engine as any)._getCurrentData());
+      // The target is entered; later failures (such as a final stage's output) are not rolled back
+      entering = false;
+      await this.completeTransition(steps, change);
 
     } catch (error) {
+      if (entering && steps !== undefined && change !== undefined) {
+        return this.recoverTransition(error, transition, fromStage, { checkpoint, steps, change, exitedTimers });
+      }
       // Reset transitioning state on error
       (this.engine as any)._setTransitioning(false);
+      // A transition into the timeout stage is not retried when it times out itself
+      if (transition.target !== this.timeouts.target) {
+        await this.enterTimeoutStage(error);
+      }
       throw error;
     }
 
     // Reset transitioning state
     (this.engine as any)._setTransitioning(false);
+    return undefined;
+  }
+
+  /**
+   * Arms the timers and services of the entered stages and notifies subscribers
+   */
+  private async completeTransition(
+    steps: TransitionSteps<TStage>,
+    change: Omit<StageChange<TStage, TData>, 'to' | 'data' | 'regions' | 'timestamp'>
+  ): Promise<void> {
+    // Set up automatic transitions with timers for every entered stage
+    for (const stage of steps.entry) {
+      const stageConfig = this.stageMap.get(stage);
+      if (stageConfig) {
+        (this.engine as any)._setupStageTimers(stage, stageConfig);
+      }
+    }
+
+    // Start the services of the entered stages
+    (this.engine as any)._startInvokes(steps.entry);
+
+    // Notify subscribers
+    (this.engine as any)._notifySubscribers(steps.configuration.current, (this.engine as any)._getCurrentData(), change);
+
+    // Entering a final stage completes the flow
+    await (this.engine as any)._completeIfFinal();
+  }
+
+  /**
+   * Applies the error policy to a transition that failed while entering its target
+   *
+   * Aborted and timed out transitions are always rolled back and rethrow
+   * their error. Returns the failure when the policy handled it; a rolled
+   * back failure is thrown as a `TRANSITION_ROLLED_BACK` error carrying it.
+   */
+  private async recoverTransition(
+    error: unknown,
+    transition: Transition<TStage, TData>,
+    fromStage: TStage,
+    pending: {
+      checkpoint: StateCheckpoint<TStage, TData>;
+      steps: TransitionSteps<TStage>;
+      change: Omit<StageChange<TStage, TData>, 'to' | 'data' | 'regions' | 'timestamp'>;
+      exitedTimers: TimerSnapshot<TStage>[];
+    }
+  ): Promise<TransitionFailure<TStage>> {
+    const policy = isAbortError(error) ? 'rollback' : this.errorPolicy;
+    const failure: TransitionFailure<TStage> = {
+      outcome: policy === 'commit' ? 'committed' : 'rolled-back',
+      from: fromStage,
+      to: pending.steps.configuration.current,
+      stage: fromStage,
+      event: pending.change.event,
+      error
+    };
+
+    try {
+      if (policy === 'commit') {
+        await this.completeTransition(pending.steps, pending.change);
+      } else {
+        this.rollback(pending.checkpoint, pending.steps, pending.exitedTimers);
+      }
+    } finally {
+      (this.engine as any)._setTransitioning(false);
+    }
+
+    // The error stage is not entered again when entering it fails
+    if (typeof policy === 'object' && transition.target !== policy.target) {
+      const from: TStage = (this.engine as any).stateManager.getCurrentStage();
+      await this.executeTransition({ target: policy.target }, undefined, undefined, from, { error });
+      failure.outcome = 'redirected';
+    }
+
+    failure.stage = (this.engine as any).stateManager.getCurrentStage();
+    (this.engine as any)._emit('transitionFailed', failure);
+    if (failure.outcome !== 'rolled-back') {
+      return failure;
+    }
+
+    if (transition.target !== this.timeouts.target) {
+      await this.enterTimeoutStage(error);
+    }
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new TransitionError(
+      `Transition from "${failure.from}" to "${failure.to}" was rolled back: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { failure },
+      'TRANSITION_ROLLED_BACK'
+    );
   }
 } 
\ No newline at end of file
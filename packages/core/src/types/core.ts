@@ -33,6 +33,7 @@
  * 
  * @template TStage - Union type of all possible stage names (must extend string)
  * @template TData - Type of data associated with stages (defaults to unknown)
+ * @template TEvents - Map of event names to their payload types (defaults to any event with TData)
  * 
  * @example
  * ```typescript
@@ -60,7 +61,11 @@
  * };
  * ```
  */
-export interface StageFlowConfig<TStage extends string, TData = unknown> {
+export interface StageFlowConfig<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>
+> {
   /** 
    * Initial stage to start with when the engine is created
    * 
@@ -75,9 +80,26 @@ export interface StageFlowConfig<TStage extends string, TData = unknown> {
    * Each stage must have a unique name and define its possible transitions.
    * Stages can include lifecycle hooks, effects, and stage-specific data.
    */
-  stages: StageConfig<TStage, TData>[];
-  
-  /** 
+  stages: StageConfig<TStage, TData, TEvents>[];
+
+  /**
+   * Optional global transitions available from every stage
+   *
+   * Checked after the current stage and its ancestors have no matching
+   * transition, which suits events such as logout or session expiry. Global
+   * transitions exit every active stage and cannot use `after`.
+   *
+   * @example
+   * ```typescript
+   * transitions: [
+   *   { target: 'login', event: 'logout' },
+   *   { target: 'error', event: 'fatalError' }
+   * ]
+   * ```
+   */
+  transitions?: Transition<TStage, TData, TEvents>[];
+
+  /**
    * Optional effect configurations for stage transitions
    * 
    * Effects define visual animations or transitions that occur when moving
@@ -137,6 +159,76 @@ export interface StageFlowConfig<TStage extends string, TData = unknown> {
    * to the specified storage and restore it when the engine is recreated.
    */
   persistence?: PersistenceConfig<TStage, TData>;
+
+  /**
+   * Optional handling of events sent while a transition is in progress
+   *
+   * By default `send()` and `goTo()` throw while the engine is transitioning.
+   * With the `'queue'` policy, events are processed in order once the current
+   * transition finishes and each `send()`/`goTo()` promise resolves when its own
+   * event has been handled.
+   *
+   * @example
+   * ```typescript
+   * eventQueue: { policy: 'queue' }
+   * ```
+   */
+  eventQueue?: EventQueueConfig;
+
+  /**
+   * Optional policy for `goTo()` navigation, used by stages without their own
+   *
+   * Defaults to `'free'`, which lets `goTo()` jump to any stage.
+   *
+   * @example
+   * ```typescript
+   * navigation: 'declared-only'
+   * ```
+   */
+  navigation?: NavigationPolicy<TStage>;
+
+  /**
+   * Optional recording of every input in an event log (see `getEventLog()`)
+   *
+   * The log records `send()`, `goTo()`, `setStageData()`, `back()`, `forward()`,
+   * timer firings and invoked service results, so that `replay()` can rebuild
+   * the same state. Calls made by hooks through their stage context are not
+   * recorded, since replaying runs the hooks again.
+   */
+  eventLog?: boolean;
+
+  /**
+   * Optional source of the time recorded in history entries, stage contexts and
+   * the event log (defaults to `Date.now()`)
+   */
+  clock?: StageFlowClock;
+
+  /**
+   * Optional time limits for the steps of every transition
+   *
+   * A step that runs longer aborts the transition with a `TransitionError`
+   * with the `TRANSITION_TIMEOUT` code. A transition's own `timeout` overrides
+   * these defaults.
+   *
+   * @example
+   * ```typescript
+   * timeouts: { hooks: 5000, pluginHooks: 2000, target: 'unavailable' }
+   * ```
+   */
+  timeouts?: TimeoutConfig<TStage>;
+
+  /**
+   * Optional handling of transitions that fail after their target was entered
+   *
+   * Defaults to `'rollback'`, which restores the previous stage, data, history
+   * and timers before the error is thrown.
+   *
+   * @example
+   * ```typescript
+   * transitionErrorPolicy: { target: 'error' }
+   * ```
+   */
+  transitionErrorPolicy?: TransitionErrorPolicy<TStage>;
 }
 
 /**
@@ -169,7 +261,11 @@ export interface StageFlowConfig<TStage extends string, TData = unknown> {
  * };
  * ```
  */
-export interface StageConfig<TStage extends string, TData = unknown> {
+export interface StageConfig<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>
+> {
   /** 
    * Unique name/identifier for the stage
    * 
@@ -193,7 +289,7 @@ export interface StageConfig<TStage extends string, TData = unknown> {
    * ]
    * ```
    */
-  transitions: Transition<TStage, TData>[];
+  transitions: Transition<TStage, TData, TEvents>[];
   
   /** 
    * Optional effect to apply during transitions to/from this stage
@@ -271,8 +367,167 @@ export interface StageConfig<TStage extends string, TData = unknown> {
    * ```
    */
   onExit?: StageHook<TStage, TData>;
+
+  /**
+   * Optional child stages, turning this stage into a compound stage
+   *
+   * While any child is active its parent is active too, so the parent's
+   * transitions apply to every child and parent hooks run around the child's.
+   * The engine always rests in a leaf stage (or a parallel stage, see `type`):
+   * targeting a compound stage enters its `initial` child (recursively).
+   *
+   * @example
+   * ```typescript
+   * {
+   *   name: 'payment',
+   *   initial: 'cardEntry',
+   *   transitions: [{ target: 'shipping', event: 'back' }],
+   *   stages: [
+   *     { name: 'cardEntry', transitions: [{ target: 'cardVerify', event: 'next' }] },
+   *     { name: 'cardVerify', transitions: [{ target: 'review', event: 'verified' }] }
+   *   ]
+   * }
+   * ```
+   */
+  stages?: StageConfig<TStage, TData, TEvents>[];
+
+  /**
+   * Child stage to enter when this compound stage is targeted
+   *
+   * Must name one of the direct children in `stages`. Defaults to the first child.
+   * Not allowed on parallel stages.
+   */
+  initial?: TStage;
+
+  /**
+   * Stage type
+   *
+   * A `'parallel'` stage activates all of its child stages at once. Each child is
+   * an independent region with its own current stage and timers, and events are
+   * broadcast to every region. Parallel stages cannot be nested inside a region.
+   *
+   * A `'final'` stage completes the flow: entering it as the current stage stops
+   * all timers, rejects further events and navigation until the engine is reset,
+   * and emits the flow's output to `whenDone()`, done subscribers and plugins.
+   *
+   * @example
+   * ```typescript
+   * {
+   *   name: 'editing',
+   *   type: 'parallel',
+   *   transitions: [{ target: 'done', event: 'finish' }],
+   *   stages: [
+   *     { name: 'upload', transitions: [], stages: [
+   *       { name: 'uploading', transitions: [{ target: 'uploaded', event: 'uploadComplete' }] },
+   *       { name: 'uploaded', transitions: [] }
+   *     ] },
+   *     { name: 'form', transitions: [], stages: [
+   *       { name: 'details', transitions: [{ target: 'confirm', event: 'next' }] },
+   *       { name: 'confirm', transitions: [] }
+   *     ] }
+   *   ]
+   * }
+   * ```
+   */
+  type?: 'parallel' | 'final';
+
+  /**
+   * Computes the flow's output when this final stage is entered
+   *
+   * Receives the stage data. Defaults to returning the data unchanged.
+   * Only used on stages with `type: 'final'`.
+   *
+   * @example
+   * ```typescript
+   * { name: 'complete', type: 'final', transitions: [], output: (data) => ({ orderId: data?.orderId }) }
+   * ```
+   */
+  output?: (data: TData | undefined) => unknown;
+
+  /**
+   * Whether back()/forward() may return to this stage
+   *
+   * Set to false for transient stages such as `processing` so history
+   * navigation skips over them. Defaults to true.
+   */
+  backTarget?: boolean;
+
+  /**
+   * Optional async service started when this stage is entered
+   *
+   * The service is aborted through its signal when the stage is exited, and
+   * results that arrive after that are ignored.
+   *
+   * @example
+   * ```typescript
+   * invoke: {
+   *   src: (context, signal) => fetch('/api/user', { signal }).then(res => res.json()),
+   *   onDone: { target: 'profile' },
+   *   onError: { target: 'failed' }
+   * }
+   * ```
+   */
+  invoke?: InvokeConfig<TStage, TData>;
+
+  /**
+   * Optional policy for `goTo()` navigation away from this stage
+   *
+   * Applies to this stage and its child stages, overriding the engine's
+   * `navigation` policy.
+   *
+   * @example
+   * ```typescript
+   * navigation: { allowlist: ['help'] }
+   * ```
+   */
+  navigation?: NavigationPolicy<TStage>;
+}
+
+/**
+ * Policy deciding which stages `goTo()` may navigate to
+ *
+ * - `'free'`: any stage; without a declared transition a direct jump is made
+ * - `'declared-only'`: only targets of declared transitions, whose conditions and
+ *   middleware run as usual
+ * - `{ allowlist }`: like `'declared-only'`, plus direct jumps to the listed stages
+ *
+ * Navigation that is not allowed throws a `TransitionError` with the
+ * `NAVIGATION_NOT_ALLOWED` code.
+ *
+ * The policy only governs `goTo()`. `back()` and `forward()` return to stages
+ * already visited, and the `timeouts.target` and `transitionErrorPolicy`
+ * target stages are entered without a declared transition.
+ */
+export type NavigationPolicy<TStage extends string> = 'free' | 'declared-only' | { allowlist: TStage[] };
+
+/**
+ * Async service invoked while a stage is active
+ */
+export interface InvokeConfig<TStage extends string, TData = unknown> {
+  /**
+   * Starts the service
+   *
+   * @param context - Context of the stage that invoked the service
+   * @param signal - Aborted when the stage is exited
+   * @returns The result, used as the onDone transition's data when defined
+   */
+  src: (context: StageContext<TStage, TData>, signal: AbortSignal) => Promise<TData | void>;
+  /** Transition taken when the service resolves */
+  onDone?: InvokeTransition<TStage, TData>;
+  /** Transition taken when the service rejects; the error is available as `context.error` */
+  onError?: InvokeTransition<TStage, TData>;
 }
 
+/**
+ * Transition taken when an invoked service settles
+ */
+export type InvokeTransition<TStage extends string, TData = unknown> = Omit<Transition<TStage, TData>, 'event' | 'after'>;
+
+/**
+ * Active leaf stage of each region of a parallel stage, keyed by region name
+ */
+export type RegionStages<TStage extends string> = Partial<Record<TStage, TStage>>;
+
 /**
  * Transition configuration between stages
  * 
@@ -305,7 +560,11 @@ export interface StageConfig<TStage extends string, TData = unknown> {
  * }
  * ```
  */
-export interface Transition<TStage extends string, TData = unknown> {
+export interface Transition<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>
+> {
   /** 
    * Target stage to transition to
    * 
@@ -327,14 +586,16 @@ export interface Transition<TStage extends string, TData = unknown> {
    * event: 'user.login' // Triggered by engine.send('user.login')
    * ```
    */
-  event?: string;
+  event?: EventName<TEvents>;
   
   /** 
    * Optional condition that must be met for transition
    * 
    * A function that receives the current stage context and returns a boolean
    * or Promise<boolean> indicating whether the transition should proceed.
-   * If the condition returns false, the transition will not occur.
+   * If the condition returns false, the transition will not occur. When several
+   * transitions match the same event, they are evaluated in declaration order
+   * and the first one whose condition passes is taken.
    * 
    * @param context - Current stage context with stage, data, and navigation methods
    * @returns Boolean or Promise<boolean> indicating if transition should proceed
@@ -349,6 +610,12 @@ export interface Transition<TStage extends string, TData = unknown> {
    *   const result = await validateUser(ctx.data?.userId);
    *   return result.isValid;
    * }
+   *
+   * // Guarded alternatives: 'submit' goes to success if valid, otherwise to error
+   * transitions: [
+   *   { target: 'success', event: 'submit', condition: (ctx) => ctx.data?.isValid === true },
+   *   { target: 'error', event: 'submit' }
+   * ]
    * ```
    */
   condition?: (context: StageContext<TStage, TData>) => boolean | Promise<boolean>;
@@ -389,8 +656,54 @@ export interface Transition<TStage extends string, TData = unknown> {
    * ```
    */
   middleware?: Middleware<TStage, TData>[];
+
+  /**
+   * Optional actions that derive the data for the target stage
+   *
+   * Pure functions applied in order after middleware and `beforeTransition`
+   * plugin hooks, before any stage is exited. Each receives the data produced
+   * so far (starting with the current stage data), the data sent with the event,
+   * and the transition context, and returns the new data. The result is validated
+   * against the target stage before the state is committed.
+   *
+   * @example
+   * ```typescript
+   * actions: [
+   *   (data, payload) => ({ ...data, ...payload }),
+   *   (data) => ({ ...data, attempts: (data?.attempts ?? 0) + 1 })
+   * ]
+   * ```
+   */
+  actions?: TransitionAction<TStage, TData>[];
+
+  /**
+   * Optional time limit in milliseconds for each step of this transition
+   *
+   * Applies to the condition, the middleware pipeline, each plugin hook and each
+   * `onExit`/`onEnter` hook, overriding the engine's `timeouts` defaults.
+   *
+   * @example
+   * ```typescript
+   * { target: 'saved', event: 'save', timeout: 10000 }
+   * ```
+   */
+  timeout?: number;
 }
 
+/**
+ * Pure function that derives new stage data during a transition
+ *
+ * @param data - Data produced so far (the current stage data for the first action)
+ * @param payload - Data sent with the event, after middleware modifications
+ * @param context - Transition context
+ * @returns The new data
+ */
+export type TransitionAction<TStage extends string, TData = unknown> = (
+  data: TData | undefined,
+  payload: TData | undefined,
+  context: TransitionContext<TStage, TData>
+) => TData;
+
 /**
  * Context provided to stage hooks and conditions
  */
@@ -405,6 +718,8 @@ export interface StageContext<TStage extends string, TData = unknown> {
   send: (event: string, data?: TData) => Promise<void>;
   /** Method to navigate directly to a stage */
   goTo: (stage: TStage, data?: TData) => Promise<void>;
+  /** Aborted when the transition running the hook is aborted (only set during transitions) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -551,6 +866,8 @@ export interface Plugin<TStage extends string, TData = unknown> {
     onStageEnter?: (context: StageContext<TStage, TData>) => void | Promise<void>;
     /** Called when exiting a stage */
     onStageExit?: (context: StageContext<TStage, TData>) => void | Promise<void>;
+    /** Called when the flow enters a final stage, with the flow's output */
+    onDone?: (context: StageContext<TStage, TData>, output: unknown) => void | Promise<void>;
   };
   
   /** 
@@ -590,6 +907,108 @@ export interface TransitionContext<TStage extends string, TData = unknown> {
   cancel: () => void;
   /** Method to modify the transition */
   modify: (changes: Partial<{ to: TStage; data: TData }>) => void;
+  /** Candidates evaluated to select this transition (event-driven transitions only) */
+  candidates?: TransitionCandidate<TStage, TData>[];
+  /** Error that triggered the transition (invoked service onError transitions only) */
+  error?: unknown;
+  /** Aborted when the transition is aborted with `abortTransition()` or preempted */
+  signal?: AbortSignal;
+}
+
+/**
+ * A transition that matched an event, and the outcome of evaluating it
+ */
+export interface TransitionCandidate<TStage extends string, TData = unknown> {
+  /** Matching transition */
+  transition: Transition<TStage, TData>;
+  /**
+   * Stage that declares the transition (the current stage or an ancestor);
+   * undefined for global transitions declared on the configuration
+   */
+  source?: TStage;
+  /**
+   * Evaluation outcome
+   *
+   * - `'selected'`: its condition passed and the transition was taken
+   * - `'rejected'`: its condition returned false
+   * - `'skipped'`: not evaluated because an earlier candidate was selected
+   */
+  status: 'selected' | 'rejected' | 'skipped';
+  /** Why the candidate was not selected */
+  reason?: string;
+}
+
+/**
+ * An event handled by the active stages, as reported by getAvailableEvents()
+ */
+export interface AvailableEvent<TStage extends string> {
+  /** Event name */
+  event: string;
+  /** Stage the event would lead to; undefined when blocked */
+  target?: TStage;
+  /** Whether every matching transition is blocked by its condition */
+  blocked: boolean;
+}
+
+/**
+ * A stage one declared transition away, as reported by getReachableStages()
+ */
+export interface ReachableStage<TStage extends string> {
+  /** Target stage */
+  stage: TStage;
+  /** Events of the transitions leading there; timed and eventless transitions add none */
+  events: string[];
+  /** Whether every transition leading there is blocked by its condition */
+  blocked: boolean;
+}
+
+/**
+ * Outcome of sending an event, or of navigating with goTo(), back() or forward()
+ */
+export interface TransitionResult<TStage extends string, TData = unknown> {
+  /** Event that was sent (not set for navigation) */
+  event?: string;
+  /** Stage the event was sent or the navigation started in */
+  from: TStage;
+  /** Current stage after the event was handled */
+  to: TStage;
+  /** Whether a transition was taken */
+  transitioned: boolean;
+  /** Declared transition that was taken (the first one when several regions handle the event) */
+  selected?: Transition<TStage, TData>;
+  /** Every transition matching the event (or the goTo() target), in evaluation order */
+  candidates: TransitionCandidate<TStage, TData>[];
+  /** How a failure while entering the target was handled, when the error policy let the call succeed */
+  failure?: TransitionFailure<TStage>;
+}
+
+/**
+ * Policy for a transition that fails after its target stage was entered
+ *
+ * - `'rollback'`: restore the previous stage, data, history and timers, then throw
+ *   a `TRANSITION_ROLLED_BACK` error whose context carries the failure (default)
+ * - `'commit'`: stay in the target stage, arming its timers and services and
+ *   notifying subscribers as if the transition had succeeded
+ * - `{ target }`: roll back, then transition to the given stage (such as an error stage)
+ */
+export type TransitionErrorPolicy<TStage extends string> = 'rollback' | 'commit' | { target: TStage };
+
+/**
+ * Outcome of a transition that failed after its target stage was entered
+ */
+export interface TransitionFailure<TStage extends string> {
+  /** How the failure was handled */
+  outcome: 'rolled-back' | 'committed' | 'redirected';
+  /** Stage the transition started from */
+  from: TStage;
+  /** Stage the transition was entering */
+  to: TStage;
+  /** Stage the engine is in once the failure was handled */
+  stage: TStage;
+  /** Event that triggered the transition */
+  event?: string;
+  /** Error that made the transition fail */
+  error: unknown;
 }
 
 /**
@@ -611,36 +1030,414 @@ export interface PersistenceConfig<TStage extends string, TData = unknown> {
   ttl?: number;
 }
 
+/**
+ * How events sent during a transition are handled
+ *
+ * - `'queue'`: process every event in order after the current transition
+ * - `'drop'`: ignore the event
+ * - `'replace-latest'`: keep only the most recent pending event
+ * - `'preempt'`: abort the running transition, rolling it back, and handle the
+ *   most recent event next
+ * - `'throw'`: reject with a TransitionError (default)
+ */
+export type EventQueuePolicy = 'queue' | 'drop' | 'replace-latest' | 'preempt' | 'throw';
+
+/**
+ * Event queue configuration
+ */
+export interface EventQueueConfig {
+  /** Policy for events sent while a transition is in progress */
+  policy: EventQueuePolicy;
+}
+
+/**
+ * Step of a transition that can be given a time limit
+ */
+export type TimeoutStep = 'condition' | 'middleware' | 'pluginHooks' | 'hooks';
+
+/**
+ * Default time limits in milliseconds for the steps of a transition
+ */
+export interface TimeoutConfig<TStage extends string> {
+  /** Time limit for each transition condition */
+  condition?: number;
+  /** Time limit for the middleware pipeline */
+  middleware?: number;
+  /** Time limit for each plugin hook (all plugins registering the hook together) */
+  pluginHooks?: number;
+  /** Time limit for each stage `onExit` and `onEnter` hook */
+  hooks?: number;
+  /** Stage entered when a transition times out; without one, the flow stays where it was */
+  target?: TStage;
+}
+
 /**
  * Internal state structure
  */
 export interface StageFlowState<TStage extends string, TData = unknown> {
   /** Current stage */
   current: TStage;
+  /** Active leaf of each region while `current` is a parallel stage */
+  regions?: RegionStages<TStage>;
   /** Current stage data */
   data?: TData;
   /** Whether a transition is in progress */
   isTransitioning: boolean;
   /** Transition history */
   history: Array<{ stage: TStage; timestamp: number; data?: TData }>;
+  /** Position of the current entry in history (defaults to the last entry) */
+  historyIndex?: number;
   /** Installed plugins */
   plugins: Map<string, Plugin<TStage, TData>>;
   /** Registered middleware */
   middleware: Middleware<TStage, TData>[];
 }
 
+/**
+ * Lifecycle events emitted by the engine, with their payloads (see `engine.on()`)
+ */
+export interface StageFlowLifecycleEvents<TStage extends string, TData = unknown> {
+  /** The engine started and entered its initial stages */
+  start: { stage: TStage; data?: TData };
+  /** The engine stopped */
+  stop: { stage: TStage; data?: TData };
+  /** The engine was reset to its initial stages */
+  reset: { stage: TStage; data?: TData };
+  /** Matching transitions were found but every condition returned false */
+  transitionRejected: { event?: string; from: TStage; candidates: TransitionCandidate<TStage, TData>[] };
+  /** An event matched no transition of the active stages */
+  eventIgnored: { event: string; stage: TStage };
+  /** A stage's onEnter or onExit hook threw */
+  hookError: { stage: TStage; hook: 'onEnter' | 'onExit'; error: unknown };
+  /** A transition failed after its target was entered and the error policy was applied */
+  transitionFailed: TransitionFailure<TStage>;
+}
+
+/**
+ * Name of an engine lifecycle event
+ */
+export type StageFlowLifecycleEventName = keyof StageFlowLifecycleEvents<string>;
+
+/**
+ * What caused a state change
+ *
+ * - `start`: the engine started and entered its initial stages
+ * - `reset`: a started engine was reset to its initial stages
+ * - `transition`: a transition was taken (from an event, goTo(), a timer or a service)
+ * - `history`: back() or forward() moved through history
+ * - `data`: the stage data was updated with setStageData() or patchStageData()
+ * - `restore`: a snapshot was restored
+ * - `config`: the configuration was replaced with replaceConfig()
+ */
+export type StageChangeKind = 'start' | 'reset' | 'transition' | 'history' | 'data' | 'restore' | 'config';
+
+/**
+ * Record of a state change delivered to `subscribeToChanges()` listeners
+ */
+export interface StageChange<TStage extends string, TData = unknown> {
+  /** What caused the change */
+  kind: StageChangeKind;
+  /** Stage before the change (undefined when the engine started) */
+  from?: TStage;
+  /** Stage after the change */
+  to: TStage;
+  /** Event that triggered the transition, if any */
+  event?: string;
+  /** Stage data after the change */
+  data?: TData;
+  /** Stage data before the change */
+  previousData?: TData;
+  /** Active stage of each region, while a parallel stage is active */
+  regions?: RegionStages<TStage>;
+  /** Clock time of the change */
+  timestamp: number;
+  /** Sequence number of the transition, for `transition` and `history` changes */
+  transitionId?: number;
+}
+
+/**
+ * Computes the next stage data from the current one
+ */
+export type StageDataUpdater<TData> = (previous: TData | undefined) => TData;
+
+/**
+ * Source of the time recorded by the engine
+ */
+export interface StageFlowClock {
+  /** Current time in milliseconds */
+  now(): number;
+}
+
+/**
+ * Input recorded in the event log
+ */
+export type EventLogInput<TStage extends string, TData = unknown> =
+  | { type: 'send'; event: string; data?: TData }
+  | { type: 'goTo'; stage: TStage; data?: TData }
+  | { type: 'setStageData'; data: TData }
+  | { type: 'back' }
+  | { type: 'forward' }
+  | { type: 'timer'; stage: TStage; target: TStage; after: number }
+  | { type: 'invoke'; stage: TStage; status: 'done' | 'error'; data?: TData; error?: string };
+
+/**
+ * State after an event log input was handled
+ */
+export interface EventLogResult<TStage extends string, TData = unknown> {
+  /** Current stage */
+  stage: TStage;
+  /** Current stage data */
+  data?: TData;
+  /** Error message, if handling the input failed */
+  error?: string;
+}
+
+/**
+ * JSON-safe event log entry
+ */
+export type EventLogEntry<TStage extends string, TData = unknown> = EventLogInput<TStage, TData> & {
+  /** Logical timestamp: position of the entry in the log, starting at 1 */
+  seq: number;
+  /** Clock time when the input was handled */
+  time: number;
+  /** State after the input was handled */
+  result: EventLogResult<TStage, TData>;
+};
+
+/**
+ * Options for removing a stage from a live engine
+ */
+export interface RemoveStageOptions<TStage extends string, TData = unknown> {
+  /** Stage to move the engine to when the removed stage is active */
+  migrateTo?: TStage;
+  /** Data for the stage the engine moves to */
+  data?: TData;
+}
+
+/**
+ * Options for replacing the configuration of a live engine
+ */
+export interface ReplaceConfigOptions<TStage extends string> {
+  /**
+   * Maps a stage missing from the new configuration to one that exists.
+   * Applies to the active stages and history entries; stages left unmapped
+   * (undefined) fall back to the new initial stage.
+   */
+  mapStage?: (stage: TStage) => TStage | undefined;
+}
+
+/**
+ * Options for replaying an event log
+ */
+export interface ReplayOptions {
+  /**
+   * Clock of the replaying engine; defaults to a logical clock that reads the
+   * recorded time of the entry being replayed
+   */
+  clock?: StageFlowClock;
+}
+
+/**
+ * Entry whose replayed result differs from the recorded one
+ */
+export interface ReplayMismatch<TStage extends string, TData = unknown> {
+  /** Logical timestamp of the entry */
+  seq: number;
+  /** Recorded entry, including the expected result */
+  entry: EventLogEntry<TStage, TData>;
+  /** Result of replaying the entry */
+  actual: EventLogResult<TStage, TData>;
+}
+
+/**
+ * Outcome of replaying an event log
+ */
+export interface ReplayResult<
+  TStage extends string,
+  TData = unknown,
+  TEngine = StageFlowEngine<TStage, TData>
+> {
+  /** Started engine holding the replayed state; its timers and services stay disabled */
+  engine: TEngine;
+  /** Entries whose replayed result differs from the recorded one */
+  mismatches: ReplayMismatch<TStage, TData>[];
+}
+
+/**
+ * Options for forking an engine
+ */
+export interface ForkOptions<TStage extends string, TData = unknown> {
+  /**
+   * Factories for the plugins that should run in the fork, by plugin name
+   *
+   * Each factory must return a new plugin instance. Every other plugin is
+   * installed as a stub that keeps its name and state but runs no install,
+   * uninstall or hooks, so the fork never shares a plugin instance with the
+   * engine it was forked from.
+   */
+  plugins?: Record<string, () => Plugin<TStage, TData>>;
+  /**
+   * Factories for the middleware that should run in the fork, by middleware name
+   *
+   * Every other middleware is replaced by a stub that passes transitions on
+   * unchanged, so previews do not trigger its side effects.
+   */
+  middleware?: Record<string, () => Middleware<TStage, TData>>;
+  /** Leaves out the onEnter and onExit hooks of every stage */
+  stubHooks?: boolean;
+}
+
+/**
+ * Timer captured in an engine snapshot
+ */
+export interface TimerSnapshot<TStage extends string> {
+  /** Stage the timer belongs to */
+  stage: TStage;
+  /** Target stage of the timed transition */
+  target: TStage;
+  /** Original duration (the transition's `after`) */
+  duration: number;
+  /** Time left when the snapshot was taken */
+  remainingTime: number;
+  /** Whether the timer was paused */
+  isPaused: boolean;
+}
+
+/**
+ * Versioned, JSON-safe document holding the complete runtime state of an engine
+ *
+ * Created by `getSnapshot()` and accepted by `restore()` and
+ * `StageFlowEngine.fromSnapshot()`. Middleware, plugins and invoked services are
+ * code, not state, so they come from the engine's configuration.
+ */
+export interface StageFlowSnapshot<TStage extends string, TData = unknown> {
+  /** Snapshot format version */
+  version: number;
+  /** Current stage */
+  current: TStage;
+  /** Active leaf of each region while `current` is a parallel stage */
+  regions?: RegionStages<TStage>;
+  /** Current stage data */
+  data?: TData;
+  /** Transition history */
+  history: Array<{ stage: TStage; timestamp: number; data?: TData }>;
+  /** Position of the current entry in history */
+  historyIndex: number;
+  /** Whether the flow has reached a final stage */
+  done: boolean;
+  /** Output of a completed flow */
+  output?: unknown;
+  /** Plugin state keyed by plugin name */
+  plugins: Record<string, Record<string, unknown>>;
+  /** Timers of the active stages; omitted when the engine was not started */
+  timers?: TimerSnapshot<TStage>[];
+  /** When the snapshot was taken */
+  timestamp: number;
+}
+
+/**
+ * Map of event names to the payload type sent with each event
+ *
+ * Declare it as a type alias (not an interface) so it satisfies the index
+ * signature. Payloads become stage data, so they must be assignable to TData;
+ * use `undefined` for events without a payload.
+ *
+ * @example
+ * ```typescript
+ * type CheckoutEvents = {
+ *   submit: { email: string };
+ *   cancel: undefined;
+ * };
+ * ```
+ */
+export type EventMap<TData = unknown> = Record<string, TData | undefined>;
+
+/**
+ * Name of an event declared in an event map
+ */
+export type EventName<TEvents> = keyof TEvents & string;
+
+/**
+ * Payload argument of an event: required unless its payload type includes `undefined`
+ *
+ * Without a declared event map (any string is an event) the payload stays optional.
+ */
+export type EventArgs<TEvents, TEvent extends keyof TEvents> =
+  string extends keyof TEvents
+    ? [data?: TEvents[TEvent]]
+    : undefined extends TEvents[TEvent] ? [data?: TEvents[TEvent]] : [data: TEvents[TEvent]];
+
+/**
+ * Map of stage names to the data type each stage carries
+ *
+ * TData is then the union of the map's data types.
+ *
+ * @example
+ * ```typescript
+ * type CheckoutDataMap = {
+ *   form: { fields: Record<string, string> };
+ *   success: { receiptId: string };
+ * };
+ * type CheckoutData = CheckoutDataMap[keyof CheckoutDataMap];
+ * ```
+ */
+export type StageDataMap<TStage extends string, TData = unknown> = { [K in TStage]: TData };
+
+/**
+ * Current stage paired with its data, narrowed by checking `stage`
+ */
+export type StageState<TStage extends string, TDataMap extends StageDataMap<TStage>> = {
+  [K in TStage]: { stage: K; data?: TDataMap[K] };
+}[TStage];
+
 /**
  * Forward declaration of StageFlowEngine for plugin interface
  */
-export interface StageFlowEngine<TStage extends string, TData = unknown> {
+export interface StageFlowEngine<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+> {
   getCurrentStage(): TStage;
-  getCurrentData(): TData | undefined;
+  getCurrentStagePath(): TStage[];
+  getRegionStages(): RegionStages<TStage>;
+  getCurrentState(): StageState<TStage, TDataMap>;
+  getCurrentData(): TDataMap[TStage] | undefined;
+  getCurrentData<TCurrent extends TStage>(stage: TCurrent): TDataMap[TCurrent] | undefined;
   getCurrentStageEffect(): string | EffectConfig | undefined;
   getStageEffect(stage: TStage): string | EffectConfig | undefined;
-  send(event: string, data?: TData): Promise<void>;
-  goTo(stage: TStage, data?: TData): Promise<void>;
-  setStageData(data: TData): void;
-  subscribe(callback: (stage: TStage, data?: TData) => void): () => void;
+  send<TEvent extends EventName<TEvents>>(event: TEvent, ...args: EventArgs<TEvents, TEvent>): Promise<TransitionResult<TStage, TData>>;
+  goTo<TTarget extends TStage>(stage: TTarget, data?: TDataMap[TTarget]): Promise<TransitionResult<TStage, TData>>;
+  back(): Promise<TransitionResult<TStage, TData>>;
+  forward(): Promise<TransitionResult<TStage, TData>>;
+  canGoBack(): boolean;
+  canGoForward(): boolean;
+  can<TEvent extends EventName<TEvents>>(event: TEvent, data?: TEvents[TEvent]): Promise<boolean>;
+  getAvailableEvents(): Promise<AvailableEvent<TStage>[]>;
+  getReachableStages(): Promise<ReachableStage<TStage>[]>;
+  isDone(): boolean;
+  whenDone<TOutput = unknown>(): Promise<TOutput>;
+  setStageData(data: TData | StageDataUpdater<TData>): void;
+  patchStageData(partial: Partial<TData>): void;
+  subscribe(callback: (stage: TStage, data?: TData, regions?: RegionStages<TStage>) => void): () => void;
+  select<TSelected>(
+    selector: (state: StageState<TStage, TDataMap>) => TSelected,
+    listener: (selected: TSelected, previous: TSelected) => void,
+    equalityFn?: (a: TSelected, b: TSelected) => boolean
+  ): () => void;
+  subscribeToChanges(listener: (change: StageChange<TStage, TData>) => void): () => void;
+  subscribeToDone(callback: (output: unknown) => void): () => void;
+  abortTransition(reason?: string): boolean;
+  addStage(stage: StageConfig<TStage, TData>, parent?: TStage): void;
+  updateStage(stage: TStage, changes: Partial<Omit<StageConfig<TStage, TData>, 'name'>>): void;
+  addTransition(stage: TStage, transition: Transition<TStage, TData>): void;
+  removeStage(stage: TStage, options?: RemoveStageOptions<TStage, TData>): Promise<void>;
+  replaceConfig(config: StageFlowConfig<TStage, TData>, options?: ReplaceConfigOptions<TStage>): void;
+  on<TName extends StageFlowLifecycleEventName>(
+    name: TName,
+    listener: (payload: StageFlowLifecycleEvents<TStage, TData>[TName]) => void
+  ): () => void;
   installPlugin(plugin: Plugin<TStage, TData>): Promise<void>;
   uninstallPlugin(name: string): Promise<void>;
   getInstalledPlugins(): string[];
@@ -663,6 +1460,12 @@ export interface StageFlowEngine<TStage extends string, TData = unknown> {
   cancelTimer(timerId: string): boolean;
   serializeTimerState(): string;
   restoreTimerState(serializedState: string): boolean;
+  getSnapshot(): StageFlowSnapshot<TStage, TData>;
+  restore(snapshot: StageFlowSnapshot<TStage, TData>): void;
+  getEventLog(): EventLogEntry<TStage, TData>[];
+  replay(log: EventLogEntry<TStage, TData>[], options?: ReplayOptions): Promise<ReplayResult<TStage, TData>>;
+  fork(options?: ForkOptions<TStage, TData>): Promise<StageFlowEngine<TStage, TData, TEvents, TDataMap>>;
+  advanceTime(ms: number): Promise<void>;
 }
 
 /**
@@ -18,10 +18,13 @@ export class StageFlowError extends Error {
 
 /**
  * Error thrown during stage transitions
+ *
+ * The code defaults to `TRANSITION_ERROR`; specific failures such as
+ * `NAVIGATION_NOT_ALLOWED` use their own code.
  */
 export class TransitionError extends StageFlowError {
-  constructor(message: string, context?: unknown) {
-    super(message, 'TRANSITION_ERROR', context);
+  constructor(message: string, context?: unknown, code: string = 'TRANSITION_ERROR') {
+    super(message, code, context);
     this.name = 'TransitionError';
   }
 }
@@ -43,7 +43,35 @@ export type {
   TransitionContext,
   PersistenceConfig,
   StageFlowState,
-  StageFlowEngine
+  StageFlowEngine,
+  EventMap,
+  EventName,
+  EventArgs,
+  StageDataMap,
+  StageState,
+  StageFlowSnapshot,
+  TimerSnapshot,
+  StageDataUpdater,
+  StageChange,
+  StageFlowLifecycleEvents,
+  StageFlowLifecycleEventName,
+  StageChangeKind,
+  StageFlowClock,
+  TimeoutConfig,
+  TimeoutStep,
+  TransitionErrorPolicy,
+  TransitionFailure,
+  RemoveStageOptions,
+  ReplaceConfigOptions,
+  AvailableEvent,
+  ReachableStage,
+  EventLogInput,
+  EventLogResult,
+  EventLogEntry,
+  ReplayOptions,
+  ReplayMismatch,
+  ReplayResult,
+  ForkOptions
 } from './core';
 
 // Re-export error types
@@ -75,6 +103,17 @@ export type ExtractStageNames<T> = T extends StageFlowConfig<infer TStage, any>
  */
 export type ExtractStageData<T> = T extends StageFlowConfig<any, infer TData> ? TData : never;
 
+/**
+ * Extract the event map from a StageFlowConfig type
+ * 
+ * @example
+ * ```typescript
+ * type MyConfig = StageFlowConfig<string, FormData, { submit: FormData }>;
+ * type MyEvents = ExtractStageEvents<MyConfig>; // { submit: FormData }
+ * ```
+ */
+export type ExtractStageEvents<T> = T extends StageFlowConfig<any, any, infer TEvents> ? TEvents : never;
+
 /**
  * Create a stage configuration with required fields
  * 
@@ -13,9 +13,14 @@ import {
   Plugin,
   Middleware,
   EffectConfig,
-  PersistenceConfig
+  PersistenceConfig,
+  EventQueueConfig,
+  NavigationPolicy,
+  TimeoutConfig,
+  TransitionErrorPolicy
 } from './types/core';
 import { ConfigurationError } from './types/errors';
+import { StageHierarchy, flattenStages } from './stage-hierarchy';
 
 /**
  * Validation result interface
@@ -62,6 +67,13 @@ export const DEFAULT_VALIDATION_OPTIONS: Required<ValidationOptions> = {
   validateEffects: true
 };
 
+/**
+ * Whether a value is a finite number greater than zero
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
 /**
  * Configuration validator class
  */
@@ -89,6 +101,16 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
       // Validate stages
       this.validateStages(config, result);
 
+      // Validate global transitions
+      if (config.transitions !== undefined) {
+        this.validateGlobalTransitions(config, result);
+      }
+
+      // Validate the engine's navigation policy
+      if (config.navigation !== undefined) {
+        this.validateNavigation(config.navigation, 'Navigation', flattenStages(config.stages || []), result);
+      }
+
       // Validate transitions
       if (this.options.validateTransitions) {
         this.validateTransitions(config, result);
@@ -114,6 +136,21 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
         this.validatePersistence(config.persistence, result);
       }
 
+      // Validate event queue
+      if (config.eventQueue !== undefined) {
+        this.validateEventQueue(config.eventQueue, result);
+      }
+
+      // Validate timeouts
+      if (config.timeouts !== undefined) {
+        this.validateTimeouts(config.timeouts, flattenStages(config.stages || []), result);
+      }
+
+      // Validate transition error policy
+      if (config.transitionErrorPolicy !== undefined) {
+        this.validateTransitionErrorPolicy(config.transitionErrorPolicy, flattenStages(config.stages || []), result);
+      }
+
       // Check for common mistakes and add warnings
       if (this.options.showWarnings) {
         this.addDevelopmentWarnings(config, result);
@@ -155,14 +192,15 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
    */
   private validateStages(config: StageFlowConfig<TStage, TData>, result: ValidationResult): void {
     const stageNames = new Set<TStage>();
-    const initialStageExists = config.stages.some(stage => stage.name === config.initial);
+    const allStages = flattenStages(config.stages);
+    const initialStageExists = allStages.some(stage => stage?.name === config.initial);
 
     if (!initialStageExists) {
       result.errors.push(`Initial stage "${config.initial}" not found in stages array`);
     }
 
-    for (let i = 0; i < config.stages.length; i++) {
-      const stage = config.stages[i];
+    for (let i = 0; i < allStages.length; i++) {
+      const stage = allStages[i];
       const stagePrefix = `Stage ${i + 1} (${stage?.name || 'unnamed'})`;
 
       // Validate stage structure
@@ -190,10 +228,77 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
       }
 
       // Validate individual transitions
-      this.validateStageTransitions(stage, config.stages, result);
+      this.validateStageTransitions(stage, allStages, result);
 
       // Validate stage-specific properties
       this.validateStageProperties(stage, result);
+
+      // Validate the invoked service
+      if (stage.invoke !== undefined) {
+        this.validateInvoke(stage, allStages, result);
+      }
+
+      // Validate the navigation policy
+      if (stage.navigation !== undefined) {
+        this.validateNavigation(stage.navigation, `Stage "${stage.name}"`, allStages, result);
+      }
+
+      // Validate child stages of compound stages
+      this.validateChildStages(stage, result);
+    }
+  }
+
+  /**
+   * Validates the child stages of a compound stage
+   */
+  private validateChildStages(stage: StageConfig<TStage, TData>, result: ValidationResult): void {
+    const stagePrefix = `Stage "${stage.name}"`;
+
+    if (stage.type !== undefined && stage.type !== 'parallel' && stage.type !== 'final') {
+      result.errors.push(`${stagePrefix}: Invalid stage type "${stage.type}"`);
+    }
+
+    if (stage.type === 'final') {
+      if (stage.stages !== undefined) {
+        result.errors.push(`${stagePrefix}: Final stages cannot have child stages`);
+      }
+      if (stage.transitions.length > 0) {
+        result.warnings.push(`${stagePrefix}: Transitions of a final stage are never taken`);
+      }
+    }
+
+    if (stage.type === 'parallel') {
+      if (stage.initial !== undefined) {
+        result.errors.push(`${stagePrefix}: Parallel stages enter every region and cannot set an initial child stage`);
+      }
+      if (stage.stages === undefined) {
+        result.errors.push(`${stagePrefix}: Parallel stage must define at least one region in stages`);
+        return;
+      }
+      if (Array.isArray(stage.stages) && flattenStages(stage.stages).some(child => child?.type === 'parallel')) {
+        result.errors.push(`${stagePrefix}: Parallel stages cannot be nested inside another parallel stage`);
+      }
+    }
+
+    if (stage.stages === undefined) {
+      if (stage.initial !== undefined) {
+        result.errors.push(`${stagePrefix}: Initial child stage "${stage.initial}" is set but the stage has no child stages`);
+      }
+      return;
+    }
+
+    if (!Array.isArray(stage.stages)) {
+      result.errors.push(`${stagePrefix}: Child stages must be an array`);
+      return;
+    }
+
+    if (stage.stages.length === 0) {
+      result.errors.push(`${stagePrefix}: Compound stage must define at least one child stage`);
+      return;
+    }
+
+    if (stage.initial !== undefined && !stage.stages.some(child => child?.name === stage.initial)) {
+      result.errors.push(`${stagePrefix}: Initial child stage "${stage.initial}" is not a direct child`);
     }
   }
 
@@ -233,7 +338,115 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
       }
 
       // Validate transition properties
-      this.validateTransitionProperties(transition, stage.name, result);
+      this.validateTransitionProperties(
+        transition,
+        `Stage "${stage.name}" transition to "${transition.target}"`,
+        result
+      );
+    }
+  }
+
+  /**
+   * Validates the service invoked by a stage and its onDone/onError transitions
+   */
+  private validateInvoke(
+    stage: StageConfig<TStage, TData>,
+    allStages: StageConfig<TStage, TData>[],
+    result: ValidationResult
+  ): void {
+    const invokePrefix = `Stage "${stage.name}" invoke`;
+    const invoke = stage.invoke;
+
+    if (!invoke || typeof invoke !== 'object') {
+      result.errors.push(`${invokePrefix}: Invoke must be an object`);
+      return;
+    }
+
+    if (typeof invoke.src !== 'function') {
+      result.errors.push(`${invokePrefix}: src must be a function`);
+    }
+
+    const stageNames = new Set(allStages.map(s => s.name));
+    for (const key of ['onDone', 'onError'] as const) {
+      const transition = invoke[key];
+      if (transition === undefined) {
+        continue;
+      }
+
+      if (!transition || !transition.target) {
+        result.errors.push(`${invokePrefix} ${key}: Target stage is required`);
+        continue;
+      }
+
+      if (!stageNames.has(transition.target)) {
+        result.errors.push(`${invokePrefix} ${key}: Target stage "${transition.target}" does not exist`);
+      }
+
+      this.validateTransitionProperties(transition, `${invokePrefix} ${key}`, result);
+    }
+  }
+
+  /**
+   * Validates a goTo() navigation policy
+   */
+  private validateNavigation(
+    navigation: NavigationPolicy<TStage>,
+    prefix: string,
+    allStages: StageConfig<TStage, TData>[],
+    result: ValidationResult
+  ): void {
+    if (navigation === 'free' || navigation === 'declared-only') {
+      return;
+    }
+
+    if (!navigation || typeof navigation !== 'object' || !Array.isArray(navigation.allowlist)) {
+      result.errors.push(`${prefix}: navigation must be 'free', 'declared-only' or { allowlist: [...] }`);
+      return;
+    }
+
+    const stageNames = new Set(allStages.map(stage => stage?.name));
+    for (const stage of navigation.allowlist) {
+      if (!stageNames.has(stage)) {
+        result.errors.push(`${prefix}: navigation allowlist stage "${stage}" does not exist`);
+      }
+    }
+  }
+
+  /**
+   * Validates global transitions declared at the configuration root
+   */
+  private validateGlobalTransitions(config: StageFlowConfig<TStage, TData>, result: ValidationResult): void {
+    if (!Array.isArray(config.transitions)) {
+      result.errors.push('Global transitions must be an array');
+      return;
+    }
+
+    const stageNames = new Set(flattenStages(config.stages).map(stage => stage?.name));
+
+    for (let i = 0; i < config.transitions.length; i++) {
+      const transition = config.transitions[i];
+      const transitionPrefix = `Global transition ${i + 1}`;
+
+      if (!transition) {
+        result.errors.push(`${transitionPrefix}: Transition configuration is required`);
+        continue;
+      }
+
+      if (!transition.target) {
+        result.errors.push(`${transitionPrefix}: Target stage is required`);
+        continue;
+      }
+
+      if (!stageNames.has(transition.target)) {
+        result.errors.push(`${transitionPrefix}: Target stage "${transition.target}" does not exist`);
+      }
+
+      // Timers belong to stages, so a global transition has nothing to time from
+      if (transition.after !== undefined) {
+        result.errors.push(`${transitionPrefix}: Global transitions cannot use 'after'`);
+      }
+
+      this.validateTransitionProperties(transition, `Global transition to "${transition.target}"`, result);
     }
   }
 
@@ -242,11 +455,9 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
    */
   private validateTransitionProperties(
     transition: Transition<TStage, TData>,
-    stageName: TStage,
+    transitionPrefix: string,
     result: ValidationResult
   ): void {
-    const transitionPrefix = `Stage "${stageName}" transition to "${transition.target}"`;
-
     // Validate after
     if (transition.after !== undefined) {
       if (typeof transition.after !== 'number' || transition.after < 0) {
@@ -257,6 +468,11 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
       }
     }
 
+    // Validate timeout
+    if (transition.timeout !== undefined && !isPositiveNumber(transition.timeout)) {
+      result.errors.push(`${transitionPrefix}: Timeout must be a positive number`);
+    }
+
     // Validate event name
     if (transition.event !== undefined) {
       if (typeof transition.event !== 'string' || transition.event.trim() === '') {
@@ -275,6 +491,15 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     if (transition.middleware) {
       this.validateMiddleware(transition.middleware, result, `${transitionPrefix} middleware`);
     }
+
+    // Validate actions
+    if (transition.actions !== undefined) {
+      if (!Array.isArray(transition.actions)) {
+        result.errors.push(`${transitionPrefix}: Actions must be an array`);
+      } else if (transition.actions.some(action => typeof action !== 'function')) {
+        result.errors.push(`${transitionPrefix}: Every action must be a function`);
+      }
+    }
   }
 
   /**
@@ -321,42 +546,83 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     if (stage.onExit !== undefined && typeof stage.onExit !== 'function') {
       result.errors.push(`${stagePrefix}: onExit must be a function`);
     }
+
+    if (stage.backTarget !== undefined && typeof stage.backTarget !== 'boolean') {
+      result.errors.push(`${stagePrefix}: backTarget must be a boolean`);
+    }
+
+    if (stage.output !== undefined) {
+      if (typeof stage.output !== 'function') {
+        result.errors.push(`${stagePrefix}: output must be a function`);
+      } else if (stage.type !== 'final') {
+        result.warnings.push(`${stagePrefix}: output is only used on final stages`);
+      }
+    }
   }
 
   /**
    * Validates all transitions in the configuration
    */
   private validateTransitions(config: StageFlowConfig<TStage, TData>, result: ValidationResult): void {
-    const stageMap = new Map(config.stages.map(stage => [stage.name, stage]));
+    const allStages = flattenStages(config.stages);
+    const stageMap = new Map(allStages.map(stage => [stage.name, stage]));
+    const hierarchy = new StageHierarchy<TStage, TData>(config.stages);
+    const globalTransitions = Array.isArray(config.transitions) ? config.transitions.filter(Boolean) : [];
 
     // Check for unreachable stages
     const reachableStages = new Set<TStage>([config.initial]);
     const toVisit = [config.initial];
+    const markReachable = (stage: TStage): void => {
+      if (!reachableStages.has(stage)) {
+        reachableStages.add(stage);
+        toVisit.push(stage);
+      }
+    };
+
+    // Global transitions can be taken from the initial stage like any other
+    for (const transition of globalTransitions) {
+      markReachable(transition.target);
+    }
 
     while (toVisit.length > 0) {
       const currentStage = toVisit.pop()!;
       const stageConfig = stageMap.get(currentStage);
 
       if (stageConfig) {
-        for (const transition of stageConfig.transitions) {
-          if (!reachableStages.has(transition.target)) {
-            reachableStages.add(transition.target);
-            toVisit.push(transition.target);
-          }
+        // Being in a stage means its parent is active, entering a parallel stage
+        // enters every region, and entering a compound stage enters its initial child
+        const parent = hierarchy.getParent(currentStage);
+        if (parent !== undefined) {
+          markReachable(parent);
+        }
+        if (hierarchy.isParallel(currentStage)) {
+          hierarchy.getChildren(currentStage).forEach(markReachable);
+        } else if (hierarchy.isCompound(currentStage)) {
+          markReachable(stageConfig.initial ?? stageConfig.stages![0].name);
+        }
+
+        for (const transition of [...stageConfig.transitions, ...this.getInvokeTransitions(stageConfig)]) {
+          markReachable(transition.target);
         }
       }
     }
 
     // Warn about unreachable stages
-    for (const stage of config.stages) {
+    for (const stage of allStages) {
       if (!reachableStages.has(stage.name)) {
         result.warnings.push(`Stage "${stage.name}" is not reachable from the initial stage`);
       }
     }
 
-    // Check for stages with no outgoing transitions (potential dead ends)
-    for (const stage of config.stages) {
-      if (stage.transitions.length === 0) {
+    // Check for leaf stages with no outgoing transitions, including inherited and global ones (potential dead ends)
+    for (const stage of allStages) {
+      if (hierarchy.isCompound(stage.name) || stage.type === 'final' || globalTransitions.length > 0) {
+        continue;
+      }
+      const inherited = hierarchy.getAncestors(stage.name).some(
+        ancestor => (stageMap.get(ancestor)?.transitions.length ?? 0) > 0
+      );
+      if (stage.transitions.length === 0 && this.getInvokeTransitions(stage).length === 0 && !inherited) {
         result.warnings.push(`Stage "${stage.name}" has no outgoing transitions (potential dead end)`);
       }
     }
@@ -365,13 +631,28 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     this.detectCircularTransitions(config, result);
   }
 
+  /**
+   * Gets the onDone/onError transitions of a stage's invoked service
+   */
+  private getInvokeTransitions(stage: StageConfig<TStage, TData>): Array<{ target: TStage }> {
+    const invoke = stage.invoke;
+    if (!invoke || typeof invoke !== 'object') {
+      return [];
+    }
+    return [invoke.onDone, invoke.onError].filter(
+      (transition): transition is NonNullable<typeof transition> => Boolean(transition?.target)
+    );
+  }
+
   /**
    * Detects potentially problematic circular transitions
    */
   private detectCircularTransitions(config: StageFlowConfig<TStage, TData>, result: ValidationResult): void {
-    const stageMap = new Map(config.stages.map(stage => [stage.name, stage]));
+    const allStages = flattenStages(config.stages);
+    const stageMap = new Map(allStages.map(stage => [stage.name, stage]));
+    const globalTransitions = Array.isArray(config.transitions) ? config.transitions.filter(Boolean) : [];
 
-    for (const stage of config.stages) {
+    for (const stage of allStages) {
       for (const transition of stage.transitions) {
         // Check for immediate self-loops without conditions or events
         if (transition.target === stage.name && !transition.condition && !transition.event && !transition.after) {
@@ -383,7 +664,7 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
         // Check for simple two-stage loops
         const targetStage = stageMap.get(transition.target);
         if (targetStage) {
-          const backTransition = targetStage.transitions.find(t => t.target === stage.name);
+          const backTransition = [...targetStage.transitions, ...globalTransitions].find(t => t.target === stage.name);
           if (backTransition && !transition.condition && !backTransition.condition && 
               !transition.event && !backTransition.event && !transition.after && !backTransition.after) {
             result.warnings.push(
@@ -482,6 +763,10 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     if (hooks.onStageExit !== undefined && typeof hooks.onStageExit !== 'function') {
       result.errors.push(`${pluginPrefix}: onStageExit hook must be a function`);
     }
+
+    if (hooks.onDone !== undefined && typeof hooks.onDone !== 'function') {
+      result.errors.push(`${pluginPrefix}: onDone hook must be a function`);
+    }
   }
 
   /**
@@ -643,12 +928,70 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     }
   }
 
+  /**
+   * Validates event queue configuration
+   */
+  private validateEventQueue(eventQueue: EventQueueConfig, result: ValidationResult): void {
+    const validPolicies = ['queue', 'drop', 'replace-latest', 'preempt', 'throw'];
+    if (!eventQueue || !validPolicies.includes(eventQueue.policy)) {
+      result.errors.push(`Event queue: policy must be one of: ${validPolicies.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validates the default transition step timeouts
+   */
+  private validateTimeouts(
+    timeouts: TimeoutConfig<TStage>,
+    allStages: StageConfig<TStage, TData>[],
+    result: ValidationResult
+  ): void {
+    if (!timeouts || typeof timeouts !== 'object') {
+      result.errors.push('Timeouts: must be an object');
+      return;
+    }
+
+    for (const step of ['condition', 'middleware', 'pluginHooks', 'hooks'] as const) {
+      if (timeouts[step] !== undefined && !isPositiveNumber(timeouts[step])) {
+        result.errors.push(`Timeouts: ${step} must be a positive number`);
+      }
+    }
+
+    if (timeouts.target !== undefined && !allStages.some(stage => stage?.name === timeouts.target)) {
+      result.errors.push(`Timeouts: target stage "${timeouts.target}" does not exist`);
+    }
+  }
+
+  /**
+   * Validates the policy for transitions failing while their target is entered
+   */
+  private validateTransitionErrorPolicy(
+    policy: TransitionErrorPolicy<TStage>,
+    allStages: StageConfig<TStage, TData>[],
+    result: ValidationResult
+  ): void {
+    if (policy === 'rollback' || policy === 'commit') {
+      return;
+    }
+
+    if (!policy || typeof policy !== 'object' || !policy.target) {
+      result.errors.push(`Transition error policy: must be 'rollback', 'commit' or { target: stage }`);
+      return;
+    }
+
+    if (!allStages.some(stage => stage?.name === policy.target)) {
+      result.errors.push(`Transition error policy: target stage "${policy.target}" does not exist`);
+    }
+  }
+
   /**
    * Adds development-time warnings for common mistakes
    */
   private addDevelopmentWarnings(config: StageFlowConfig<TStage, TData>, result: ValidationResult): void {
+    const allStages = flattenStages(config.stages);
+
     // Warn about stages with only timer-based transitions
-    for (const stage of config.stages) {
+    for (const stage of allStages) {
       const hasNonTimerTransitions = stage.transitions.some(t => !t.after || t.event || t.condition);
       if (!hasNonTimerTransitions && stage.transitions.length > 0) {
         result.warnings.push(`Stage "${stage.name}" only has timer-based transitions. Consider adding event-based or conditional transitions for better user control.`);
@@ -658,7 +1001,7 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     // Warn about unused effects
     if (config.effects) {
       const usedEffects = new Set<string>();
-      for (const stage of config.stages) {
+      for (const stage of allStages) {
         if (stage.effect) {
           // Handle both string and EffectConfig types
           if (typeof stage.effect === 'string') {
@@ -679,7 +1022,7 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     // Warn about stages referencing non-existent effects
     if (config.effects) {
       const definedEffects = new Set(Object.keys(config.effects));
-      for (const stage of config.stages) {
+      for (const stage of allStages) {
         if (stage.effect && typeof stage.effect === 'string' && !definedEffects.has(stage.effect)) {
           result.warnings.push(`Stage "${stage.name}" references undefined effect "${stage.effect}"`);
         }
@@ -687,7 +1030,7 @@ export class StageFlowValidator<TStage extends string, TData = unknown> {
     }
 
     // Warn about very short or very long transition after times
-    for (const stage of config.stages) {
+    for (const stage of allStages) {
       for (const transition of stage.transitions) {
         if (transition.after !== undefined) {
           if (transition.after < 100) {
@@ -756,10 +1099,12 @@ export function validateStageFlowConfigStrict<TStage extends string, TData = unk
 export class RuntimeTypeChecker<TStage extends string, TData = unknown> {
   private expectedStages: Set<TStage>;
   private config: StageFlowConfig<TStage, TData>;
+  private hierarchy: StageHierarchy<TStage, TData>;
 
   constructor(config: StageFlowConfig<TStage, TData>) {
     this.config = config;
-    this.expectedStages = new Set(config.stages.map(stage => stage.name));
+    this.expectedStages = new Set(flattenStages(config.stages).map(stage => stage.name));
+    this.hierarchy = new StageHierarchy<TStage, TData>(config.stages);
   }
 
   /**
@@ -781,7 +1126,8 @@ export class RuntimeTypeChecker<TStage extends string, TData = unknown> {
     }
 
     // Check if transition is allowed
-    const fromStage = this.config.stages.find(stage => stage.name === from);
+    const allStages = flattenStages(this.config.stages);
+    const fromStage = allStages.find(stage => stage.name === from);
     if (!fromStage) {
       throw new ConfigurationError(
         `Source stage "${from}" not found in configuration`,
@@ -789,14 +1135,22 @@ export class RuntimeTypeChecker<TStage extends string, TData = unknown> {
       );
     }
 
-    const validTransition = fromStage.transitions.find(transition => 
+    // Transitions declared on enclosing stages and global transitions apply to the source stage as well
+    const availableTransitions = [
+      ...[from, ...this.hierarchy.getAncestors(from)].flatMap(
+        stage => allStages.find(s => s.name === stage)?.transitions ?? []
+      ),
+      ...(this.config.transitions ?? [])
+    ];
+
+    const validTransition = availableTransitions.find(transition => 
       transition.target === to && (!event || transition.event === event)
     );
 
     if (!validTransition) {
       throw new ConfigurationError(
         `No valid transition from "${from}" to "${to}"${event ? ` with event "${event}"` : ''}`,
-        { from, to, event, availableTransitions: fromStage.transitions }
+        { from, to, event, availableTransitions }
       );
     }
   }
@@ -819,7 +1173,8 @@ export class RuntimeTypeChecker<TStage extends string, TData = unknown> {
    */
   updateConfig(config: StageFlowConfig<TStage, TData>): void {
     this.config = config;
-    this.expectedStages = new Set(config.stages.map(stage => stage.name));
+    this.expectedStages = new Set(flattenStages(config.stages).map(stage => stage.name));
+    this.hierarchy.rebuild(config.stages);
   }
 }
 
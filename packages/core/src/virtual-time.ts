@@ -0,0 +1,75 @@
+/**
+ * Virtual time for forked engines
+ *
+ * This module provides a timeline that serves as both the clock and the timer
+ * scheduler of a forked engine. Time only moves when it is advanced, so timed
+ * transitions can be previewed without waiting and without real timers.
+ */
+
+import { StageFlowClock } from './types/core';
+import { TimerScheduler } from './timer-manager';
+
+interface VirtualTimer {
+  at: number;
+  callback: () => unknown;
+}
+
+/**
+ * Clock and timer scheduler whose time is advanced explicitly
+ */
+export class VirtualTimeline implements TimerScheduler, StageFlowClock {
+  private time: number;
+  private nextId = 1;
+  private timers: Map<number, VirtualTimer> = new Map();
+
+  constructor(start: number) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => unknown, delay: number): unknown {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + Math.max(0, delay), callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Moves time forward, firing due timers in order
+   *
+   * Each callback is awaited before the next timer is looked up, so timers
+   * scheduled by a firing (for example by the stage a timed transition
+   * entered) fire too when they fall within the advanced time.
+   */
+  async advance(ms: number): Promise<void> {
+    const until = this.time + Math.max(0, ms);
+
+    for (let next = this.nextDue(until); next; next = this.nextDue(until)) {
+      const [id, timer] = next;
+      this.timers.delete(id);
+      this.time = timer.at;
+      await timer.callback();
+    }
+
+    this.time = until;
+  }
+
+  /**
+   * Finds the earliest timer due by `until`, in scheduling order for equal times
+   */
+  private nextDue(until: number): [number, VirtualTimer] | undefined {
+    let due: [number, VirtualTimer] | undefined;
+    for (const entry of this.timers) {
+      if (entry[1].at <= until && (!due || entry[1].at < due[1].at)) {
+        due = entry;
+      }
+    }
+    return due;
+  }
+}
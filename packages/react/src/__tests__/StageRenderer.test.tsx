@@ -109,6 +109,58 @@ describe('StageRenderer', () => {
     expect(screen.getByTestId('stage-component')).toHaveTextContent('Stage: stage1, Data: data');
   });
 
+  it('should pass each stage component its own data type', () => {
+    type DataMap = { stage1: { test: string }; stage2: { receiptId: string } };
+    const typedEngine = mockEngine as unknown as StageFlowEngine<
+      'stage1' | 'stage2',
+      DataMap['stage1' | 'stage2'],
+      Record<string, DataMap['stage1' | 'stage2'] | undefined>,
+      DataMap
+    >;
+    const Stage1 = ({ stage, data }: StageProps<'stage1' | 'stage2', DataMap['stage1' | 'stage2'], DataMap, 'stage1'>) => (
+      <div data-testid="stage-component">
+        Stage: {stage}, Data: {data?.test}
+      </div>
+    );
+    const Stage2 = ({ data }: StageProps<'stage1' | 'stage2', DataMap['stage1' | 'stage2'], DataMap, 'stage2'>) => (
+      <div>Receipt: {data?.receiptId}</div>
+    );
+
+    render(
+      <StageRenderer
+        engine={typedEngine}
+        stageComponents={{ stage1: Stage1, stage2: Stage2 }}
+      />
+    );
+
+    expect(screen.getByTestId('stage-component')).toHaveTextContent('Stage: stage1, Data: data');
+  });
+
+  it('should type send() in stage components from the engine event map', () => {
+    type TestEvents = { next: { test: string }; reset: undefined };
+    const typedEngine = mockEngine as unknown as StageFlowEngine<'stage1' | 'stage2', { test: string }, TestEvents>;
+    const Stage1 = ({ stage, send }: StageProps<'stage1' | 'stage2', { test: string }, Record<'stage1' | 'stage2', { test: string }>, 'stage1', TestEvents>) => {
+      const sendEvents = () => {
+        void send('next', { test: 'value' });
+        void send('reset');
+        // @ts-expect-error - 'next' requires its payload
+        void send('next');
+        // @ts-expect-error - 'fail' is not a declared event
+        void send('fail');
+      };
+      return <button data-testid="stage-component" onClick={sendEvents}>Stage: {stage}</button>;
+    };
+
+    render(
+      <StageRenderer
+        engine={typedEngine}
+        stageComponents={{ stage1: Stage1 }}
+      />
+    );
+
+    expect(screen.getByTestId('stage-component')).toHaveTextContent('Stage: stage1');
+  });
+
   it('should render fallback component for stages without specific components', () => {
     const FallbackComponent = ({ stage }: StageProps<'stage1' | 'stage2', { test: string }>) => (
       <div data-testid="fallback">Fallback for {stage}</div>
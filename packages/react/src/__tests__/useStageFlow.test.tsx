@@ -151,6 +151,39 @@ describe('useStageFlow', () => {
     expect(result.current.data).toEqual(testData);
   });
 
+  it('should type send() from the engine event map', async () => {
+    type TestEvents = { start: undefined; complete: { message: string } };
+    const typedEngine = new StageFlowEngine<TestStage, TestData, TestEvents>({
+      initial: 'initial',
+      stages: [
+        { name: 'initial', transitions: [{ target: 'loading', event: 'start' }] },
+        { name: 'loading', transitions: [{ target: 'success', event: 'complete' }] },
+        { name: 'success', transitions: [] },
+        { name: 'error', transitions: [] }
+      ]
+    });
+    await typedEngine.start();
+    const typedWrapper = ({ children }: { children: React.ReactNode }) => (
+      <StageFlowProvider engine={typedEngine}>
+        {children}
+      </StageFlowProvider>
+    );
+    const { result } = renderHook(() => useStageFlow(typedEngine), { wrapper: typedWrapper });
+
+    await act(async () => {
+      await result.current.send('start');
+      await result.current.send('complete', { message: 'Done' });
+    });
+
+    expect(result.current.currentStage).toBe('success');
+    expect(result.current.data).toEqual({ message: 'Done' });
+    // @ts-expect-error - 'fail' is not a declared event
+    await expect(result.current.send('fail')).resolves.toBeUndefined();
+    // @ts-expect-error - 'complete' requires its payload
+    await expect(result.current.send('complete')).resolves.toBeUndefined();
+    await typedEngine.stop();
+  });
+
   it('should handle invalid events gracefully', async () => {
     await engine.start();
     const { result } = renderHook(() => useStageFlow(engine), { wrapper });
@@ -242,6 +275,18 @@ describe('useStageFlow', () => {
       expect(result.current.data).toEqual(updatedData);
     });
 
+    it('should apply updaters and patches to the current data', () => {
+      const { result } = renderHook(() => useStageFlow(engine), { wrapper });
+
+      act(() => {
+        result.current.setStageData({ message: 'Initial', count: 1 });
+        result.current.setStageData(previous => ({ ...previous, count: (previous?.count ?? 0) + 1 }));
+        result.current.patchStageData({ message: 'Patched' });
+      });
+
+      expect(result.current.data).toEqual({ message: 'Patched', count: 2 });
+    });
+
     it('should work with complex data structures', () => {
       const { result } = renderHook(() => useStageFlow(engine), { wrapper });
 
@@ -0,0 +1,80 @@
+/**
+ * Tests for useStageSelector hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { StageFlowEngine, StageFlowConfig, shallowEqual } from '@stage-flow/core';
+import { useStageSelector } from '../hooks/useStageSelector';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+type TestStage = 'form' | 'review';
+
+interface TestData {
+  email?: string;
+  name?: string;
+}
+
+describe('useStageSelector', () => {
+  let engine: StageFlowEngine<TestStage, TestData>;
+
+  beforeEach(async () => {
+    const config: StageFlowConfig<TestStage, TestData> = {
+      initial: 'form',
+      stages: [
+        { name: 'form', transitions: [{ target: 'review', event: 'next' }] },
+        { name: 'review', transitions: [] }
+      ]
+    };
+    engine = new StageFlowEngine(config);
+    await engine.start();
+  });
+
+  afterEach(async () => {
+    await engine.stop();
+  });
+
+  it('should return the selected slice', async () => {
+    const { result } = renderHook(() => useStageSelector(engine, state => state.stage));
+
+    expect(result.current).toBe('form');
+
+    await act(async () => {
+      await engine.send('next');
+    });
+
+    expect(result.current).toBe('review');
+  });
+
+  it('should re-render only when the selected slice changes', () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useStageSelector(engine, state => state.data?.email);
+    });
+    const initialRenders = renders;
+
+    act(() => {
+      engine.patchStageData({ name: 'Ada' });
+    });
+    expect(renders).toBe(initialRenders);
+
+    act(() => {
+      engine.patchStageData({ email: 'ada@example.com' });
+    });
+    expect(result.current).toBe('ada@example.com');
+    expect(renders).toBe(initialRenders + 1);
+  });
+
+  it('should keep the previous slice when the equality function matches', () => {
+    const { result } = renderHook(() =>
+      useStageSelector(engine, state => ({ email: state.data?.email }), shallowEqual)
+    );
+    const initial = result.current;
+
+    act(() => {
+      engine.patchStageData({ name: 'Ada' });
+    });
+
+    expect(result.current).toBe(initial);
+  });
+});
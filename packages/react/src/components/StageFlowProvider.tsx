@@ -3,7 +3,7 @@
  */
 
 import { createContext, useContext, ReactNode } from 'react';
-import { StageFlowEngine } from '@stage-flow/core';
+import { StageFlowEngine, EventMap, StageDataMap } from '@stage-flow/core';
 import React from 'react';
 
 /**
@@ -14,9 +14,14 @@ const StageFlowContext = createContext<StageFlowEngine<string, unknown> | null>(
 /**
  * Props for StageFlowProvider component
  */
-export interface StageFlowProviderProps<TStage extends string, TData = unknown> {
+export interface StageFlowProviderProps<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+> {
   /** The StageFlowEngine instance to provide */
-  engine: StageFlowEngine<TStage, TData>;
+  engine: StageFlowEngine<TStage, TData, TEvents, TDataMap>;
   /** Child components */
   children: ReactNode;
 }
@@ -27,10 +32,15 @@ export interface StageFlowProviderProps<TStage extends string, TData = unknown>
  * @param props - Provider props containing engine and children
  * @returns JSX element providing stage flow context
  */
-export function StageFlowProvider<TStage extends string, TData = unknown>({
+export function StageFlowProvider<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+>({
   engine,
   children
-}: StageFlowProviderProps<TStage, TData>): React.JSX.Element {
+}: StageFlowProviderProps<TStage, TData, TEvents, TDataMap>): React.JSX.Element {
   return (
     <StageFlowContext.Provider value={engine as unknown as StageFlowEngine<string, unknown>}>
       {children}
@@ -44,12 +54,17 @@ export function StageFlowProvider<TStage extends string, TData = unknown>({
  * @returns The StageFlowEngine instance from context
  * @throws Error if used outside of StageFlowProvider
  */
-export function useStageFlowContext<TStage extends string, TData = unknown>(): StageFlowEngine<TStage, TData> {
+export function useStageFlowContext<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+>(): StageFlowEngine<TStage, TData, TEvents, TDataMap> {
   const engine = useContext(StageFlowContext);
   
   if (!engine) {
     throw new Error('useStageFlowContext must be used within a StageFlowProvider');
   }
   
-  return engine as unknown as StageFlowEngine<TStage, TData>;
+  return engine as unknown as StageFlowEngine<TStage, TData, TEvents, TDataMap>;
 }
\ No newline at end of file
@@ -4,24 +4,36 @@
 
 import React, { useRef, useEffect } from 'react';
 import { AnimatePresence } from 'framer-motion';
-import { StageFlowEngine, EffectConfig, effectRegistry, DEFAULT_EFFECTS } from '@stage-flow/core';
+import { StageFlowEngine, EffectConfig, StageDataMap, StageDataUpdater, EventArgs, EventMap, EventName, effectRegistry, DEFAULT_EFFECTS } from '@stage-flow/core';
 import { useStageFlow } from '../hooks/useStageFlow';
 import { StageAnimation } from './StageAnimation';
 
 /**
  * Props for individual stage components
+ *
+ * With a stage data map, the component registered for a stage receives that
+ * stage as `TCurrent` and its data typed accordingly. With an event map, `send`
+ * accepts the declared events and their payloads.
  */
-export interface StageProps<TStage extends string, TData = unknown> {
+export interface StageProps<
+  TStage extends string,
+  TData = unknown,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>,
+  TCurrent extends TStage = TStage,
+  TEvents extends EventMap<TData> = EventMap<TData>
+> {
   /** Current stage name */
-  stage: TStage;
+  stage: TCurrent;
   /** Stage-specific data */
-  data?: TData;
+  data?: TDataMap[TCurrent];
   /** Function to send events */
-  send: (event: string, data?: TData) => Promise<void>;
+  send: <TEvent extends EventName<TEvents>>(event: TEvent, ...args: EventArgs<TEvents, TEvent>) => Promise<void>;
   /** Function to navigate to a stage */
-  goTo: (stage: TStage, data?: TData) => Promise<void>;
+  goTo: <TTarget extends TStage>(stage: TTarget, data?: TDataMap[TTarget]) => Promise<void>;
   /** Function to update stage data without triggering transitions */
-  setStageData: (data: TData) => void;
+  setStageData: (data: TData | StageDataUpdater<TData>) => void;
+  /** Function to shallowly merge fields into the stage data */
+  patchStageData: (partial: Partial<TData>) => void;
   /** Whether a transition is in progress */
   isTransitioning: boolean;
 }
@@ -42,13 +54,18 @@ const DefaultStageComponent = <TStage extends string, TData = unknown>({
 /**
  * Props for StageRenderer component
  */
-export interface StageRendererProps<TStage extends string, TData = unknown> {
+export interface StageRendererProps<
+  TStage extends string,
+  TData = unknown,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>,
+  TEvents extends EventMap<TData> = EventMap<TData>
+> {
   /** The StageFlowEngine instance (optional if using context) */
-  engine?: StageFlowEngine<TStage, TData>;
+  engine?: StageFlowEngine<TStage, TData, TEvents, TDataMap>;
   /** Optional effect configurations - overrides stage-specific effects */
   effects?: Record<string, EffectConfig>;
-  /** Optional stage component overrides - compatible with React 18 and 19 */
-  stageComponents?: Partial<Record<TStage, any>>;
+  /** Optional stage component overrides, each receiving its own stage's data type */
+  stageComponents?: { [K in TStage]?: React.ComponentType<StageProps<TStage, TData, TDataMap, K, TEvents>> };
   /** Optional fallback component for stages without specific components */
   fallbackComponent?: any;
   /** Whether to disable animations globally */
@@ -67,7 +84,12 @@ export interface StageRendererProps<TStage extends string, TData = unknown> {
  * @param props - Renderer props
  * @returns JSX element rendering the current stage
  */
-export function StageRenderer<TStage extends string, TData = unknown>({
+export function StageRenderer<
+  TStage extends string,
+  TData = unknown,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>,
+  TEvents extends EventMap<TData> = EventMap<TData>
+>({
   engine,
   effects = {},
   stageComponents = {},
@@ -76,8 +98,9 @@ export function StageRenderer<TStage extends string, TData = unknown>({
   defaultEffect = DEFAULT_EFFECTS.fade,
   className,
   style,
-}: StageRendererProps<TStage, TData>): React.JSX.Element {
-  const { currentStage, data, send, goTo, setStageData, isTransitioning, engine: contextEngine } = useStageFlow(engine);
+}: StageRendererProps<TStage, TData, TDataMap, TEvents>): React.JSX.Element {
+  const { currentStage, data, send, goTo, setStageData, patchStageData, isTransitioning, engine: contextEngine } =
+    useStageFlow<TStage, TData, TEvents, TDataMap>(engine);
   const animationCleanupRef = useRef<(() => void) | null>(null);
 
   // Clean up any ongoing animations when component unmounts or stage changes
@@ -144,12 +167,13 @@ export function StageRenderer<TStage extends string, TData = unknown>({
 
   const stageEffect = getStageEffect();
 
-  const stageProps: StageProps<TStage, TData> = {
+  const stageProps: StageProps<TStage, TData, TDataMap, TStage, TEvents> = {
     stage: currentStage,
-    data,
+    data: data as TDataMap[TStage] | undefined,
     send,
     goTo,
     setStageData,
+    patchStageData,
     isTransitioning
   };
 
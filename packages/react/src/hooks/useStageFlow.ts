@@ -3,23 +3,30 @@
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { StageFlowEngine } from '@stage-flow/core';
+import { StageFlowEngine, EventArgs, EventMap, EventName, StageDataMap, StageDataUpdater } from '@stage-flow/core';
 import { useStageFlowContext } from '../components/StageFlowProvider';
 
 /**
  * Return type for useStageFlow hook
  */
-export interface UseStageFlowReturn<TStage extends string, TData = unknown> {
+export interface UseStageFlowReturn<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+> {
   /** Current stage */
   currentStage: TStage;
   /** Current stage data */
   data?: TData;
-  /** Send an event to trigger transitions */
-  send: (event: string, data?: TData) => Promise<void>;
-  /** Navigate directly to a stage */
-  goTo: (stage: TStage, data?: TData) => Promise<void>;
-  /** Update stage data without triggering transitions */
-  setStageData: (data: TData) => void;
+  /** Send an event to trigger transitions (checked against the event map, if any, including required payloads) */
+  send: <TEvent extends EventName<TEvents>>(event: TEvent, ...args: EventArgs<TEvents, TEvent>) => Promise<void>;
+  /** Navigate directly to a stage (with that stage's data type, if a stage data map is given) */
+  goTo: <TTarget extends TStage>(stage: TTarget, data?: TDataMap[TTarget]) => Promise<void>;
+  /** Update stage data without triggering transitions (given a function, from the current data) */
+  setStageData: (data: TData | StageDataUpdater<TData>) => void;
+  /** Shallowly merge fields into the stage data */
+  patchStageData: (partial: Partial<TData>) => void;
   /** Whether a transition is currently in progress */
   isTransitioning: boolean;
   /** Pause all timers for the current stage */
@@ -33,20 +40,29 @@ export interface UseStageFlowReturn<TStage extends string, TData = unknown> {
   /** Check if timers are paused for the current stage */
   areTimersPaused: () => boolean;
   /** The underlying StageFlowEngine instance */
-  engine: StageFlowEngine<TStage, TData>;
+  engine: StageFlowEngine<TStage, TData, TEvents, TDataMap>;
 }
 
 /**
  * React hook that connects to a StageFlowEngine and provides reactive state
  * 
+ * Pass the event map as the third type argument (or an engine created with one)
+ * to have `send()` check event names and payloads, and a stage data map as the
+ * fourth to have `goTo()` check each stage's data.
+ *
  * @param engine - Optional StageFlowEngine instance to connect to (if not provided, uses context)
  * @returns Object containing current stage, data, and control methods
  */
-export function useStageFlow<TStage extends string, TData = unknown>(
-  engine?: StageFlowEngine<TStage, TData>
-): UseStageFlowReturn<TStage, TData> {
+export function useStageFlow<
+  TStage extends string,
+  TData = unknown,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+>(
+  engine?: StageFlowEngine<TStage, TData, TEvents, TDataMap>
+): UseStageFlowReturn<TStage, TData, TEvents, TDataMap> {
   // Get engine from context if not provided
-  const contextEngine = useStageFlowContext<TStage, TData>();
+  const contextEngine = useStageFlowContext<TStage, TData, TEvents, TDataMap>();
   const actualEngine = engine || contextEngine;
   
   // State for current stage and data
@@ -85,13 +101,13 @@ export function useStageFlow<TStage extends string, TData = unknown>(
   }, [actualEngine]);
 
   // Memoized send function that tracks transition state
-  const send = useCallback(async (event: string, eventData?: TData): Promise<void> => {
+  const send = useCallback(async <TEvent extends EventName<TEvents>>(event: TEvent, ...args: EventArgs<TEvents, TEvent>): Promise<void> => {
     const currentEngine = engineRef.current;
     const currentStage = currentEngine.getCurrentStage();
     
     setIsTransitioning(true);
     try {
-      await currentEngine.send(event, eventData);
+      await currentEngine.send(event, ...args);
       // If stage didn't change, it means the event was invalid/ignored
       if (currentEngine.getCurrentStage() === currentStage) {
         setIsTransitioning(false);
@@ -104,7 +120,7 @@ export function useStageFlow<TStage extends string, TData = unknown>(
   }, []);
 
   // Memoized goTo function that tracks transition state
-  const goTo = useCallback(async (stage: TStage, stageData?: TData): Promise<void> => {
+  const goTo = useCallback(async <TTarget extends TStage>(stage: TTarget, stageData?: TDataMap[TTarget]): Promise<void> => {
     const currentEngine = engineRef.current;
     
     setIsTransitioning(true);
@@ -123,7 +139,8 @@ export function useStageFlow<TStage extends string, TData = unknown>(
   const resetTimers = useCallback(() => actualEngine.resetTimers(), [actualEngine]);
   const getTimerRemainingTime = useCallback(() => actualEngine.getTimerRemainingTime(), [actualEngine]);
   const areTimersPaused = useCallback(() => actualEngine.areTimersPaused(), [actualEngine]);
-  const setStageData = useCallback((data: TData) => actualEngine.setStageData(data), [actualEngine]);
+  const setStageData = useCallback((data: TData | StageDataUpdater<TData>) => actualEngine.setStageData(data), [actualEngine]);
+  const patchStageData = useCallback((partial: Partial<TData>) => actualEngine.patchStageData(partial), [actualEngine]);
 
   return {
     currentStage,
@@ -131,6 +148,7 @@ export function useStageFlow<TStage extends string, TData = unknown>(
     send,
     goTo,
     setStageData,
+    patchStageData,
     isTransitioning,
     pauseTimers,
     resumeTimers,
@@ -0,0 +1,62 @@
+/**
+ * React hook for selecting a slice of the stage flow state
+ */
+
+import { useEffect, useState, useRef } from 'react';
+import { StageFlowEngine, EventMap, StageDataMap, StageState } from '@stage-flow/core';
+
+/**
+ * React hook that re-renders only when a selected slice of the state changes
+ *
+ * Built on `engine.select()`: the selector runs on every state change, but the
+ * component updates only when the result is not equal to the previous one. The
+ * latest selector and equality function are always used, so they may be
+ * defined inline.
+ *
+ * @param engine - The StageFlowEngine instance to select from
+ * @param selector - Function picking the slice from the current stage and data
+ * @param equalityFn - Function comparing slices (defaults to `Object.is`)
+ * @returns The selected slice
+ *
+ * @example
+ * ```tsx
+ * function EmailField({ engine }) {
+ *   const email = useStageSelector(engine, state => state.data?.email);
+ *   return <input value={email ?? ''} onChange={e => engine.patchStageData({ email: e.target.value })} />;
+ * }
+ * ```
+ */
+export function useStageSelector<
+  TStage extends string,
+  TData,
+  TSelected,
+  TEvents extends EventMap<TData> = EventMap<TData>,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+>(
+  engine: StageFlowEngine<TStage, TData, TEvents, TDataMap>,
+  selector: (state: StageState<TStage, TDataMap>) => TSelected,
+  equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+): TSelected {
+  const [selected, setSelected] = useState<TSelected>(() => selector(engine.getCurrentState()));
+
+  // Keep the latest selector and equality function without resubscribing
+  const selectorRef = useRef(selector);
+  const equalityRef = useRef(equalityFn);
+  selectorRef.current = selector;
+  equalityRef.current = equalityFn;
+
+  // Subscribe to engine changes
+  useEffect(() => {
+    // Catch up with changes made before subscribing (or on another engine)
+    const current = selectorRef.current(engine.getCurrentState());
+    setSelected(previous => (equalityRef.current(previous, current) ? previous : current));
+
+    return engine.select(
+      state => selectorRef.current(state),
+      next => setSelected(() => next),
+      (a, b) => equalityRef.current(a, b)
+    );
+  }, [engine]);
+
+  return selected;
+}
@@ -8,6 +8,7 @@ export * from '@stage-flow/core';
 // React hooks
 export { useStageFlow } from './hooks/useStageFlow';
 export { useStageData } from './hooks/useStageData';
+export { useStageSelector } from './hooks/useStageSelector';
 export { useStageEffect } from './hooks/useStageEffect';
 export { useStageFlowDebug, useStageFlowPerformance } from './hooks/useStageFlowDebug';
 export { useStageFlowProfiler, withStageFlowProfiler } from './hooks/useStageFlowProfiler';
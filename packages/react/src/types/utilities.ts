@@ -3,7 +3,7 @@
  */
 
 import { ComponentType } from 'react';
-import { StageFlowEngine } from '@stage-flow/core';
+import { StageFlowEngine, StageDataMap } from '@stage-flow/core';
 import { StageProps } from '../components/StageRenderer';
 
 /**
@@ -19,8 +19,12 @@ export type ExtractData<T> = T extends StageFlowEngine<any, infer TData> ? TData
 /**
  * Type-safe stage component map
  */
-export type StageComponentMap<TStage extends string, TData = unknown> = {
-  [K in TStage]?: ComponentType<StageProps<TStage, TData>>;
+export type StageComponentMap<
+  TStage extends string,
+  TData = unknown,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+> = {
+  [K in TStage]?: ComponentType<StageProps<TStage, TData, TDataMap, K>>;
 };
 
 /**
@@ -40,9 +44,7 @@ export type RequiredStageComponents<TStage extends string, TData = unknown> = {
 /**
  * Type for stage-specific data
  */
-export type StageDataMap<TStage extends string, TData = unknown> = {
-  [K in TStage]?: TData;
-};
+export type { StageDataMap };
 
 /**
  * Type guard to check if a value is a valid stage
@@ -100,9 +102,13 @@ export function createStageFlowConfig<TStage extends string, TData = unknown>(
 /**
  * Helper function to create type-safe stage components
  */
-export function createStageComponents<TStage extends string, TData = unknown>(
-  components: StageComponentMap<TStage, TData>
-): StageComponentMap<TStage, TData> {
+export function createStageComponents<
+  TStage extends string,
+  TData = unknown,
+  TDataMap extends StageDataMap<TStage, TData> = StageDataMap<TStage, TData>
+>(
+  components: StageComponentMap<TStage, TData, TDataMap>
+): StageComponentMap<TStage, TData, TDataMap> {
   return components;
 }
 
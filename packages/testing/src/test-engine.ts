@@ -8,7 +8,9 @@ import {
   StageFlowState,
   Plugin,
   Middleware,
-  EffectConfig
+  EffectConfig,
+  StageDataUpdater,
+  TransitionResult
 } from '@stage-flow/core';
 
 /**
@@ -339,11 +341,11 @@ export class StageFlowTestEngine<TStage extends string, TData = unknown> {
   }
 
   // Delegate all other methods to the underlying engine
-  async send(event: string, data?: TData): Promise<void> {
+  async send(event: string, data?: TData): Promise<TransitionResult<TStage, TData>> {
     return this.engine.send(event, data);
   }
 
-  async goTo(stage: TStage, data?: TData): Promise<void> {
+  async goTo(stage: TStage, data?: TData): Promise<TransitionResult<TStage, TData>> {
     return this.engine.goTo(stage, data);
   }
 
@@ -387,10 +389,14 @@ export class StageFlowTestEngine<TStage extends string, TData = unknown> {
     return this.engine.getStageEffect(stage);
   }
 
-  setStageData(data: TData): void {
+  setStageData(data: TData | StageDataUpdater<TData>): void {
     return this.engine.setStageData(data);
   }
 
+  patchStageData(partial: Partial<TData>): void {
+    return this.engine.patchStageData(partial);
+  }
+
   pauseTimers(): void {
     return this.engine.pauseTimers();
   }